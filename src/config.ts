@@ -22,12 +22,78 @@ export const CONFIG = {
       "",
   },
   ENCRYPTION_KEY: process.env.ENCRYPTION_KEY || "", // 32-char hex string
+  JOBS: {
+    // Shared secret for /api/jobs/tick (sent as "Authorization: Bearer ...")
+    CRON_SECRET: process.env.CRON_SECRET || "",
+    // Keep both well under the serverless function limit (10s on Vercel)
+    TICK_BUDGET_MS: parseInt(process.env.JOBS_TICK_BUDGET_MS || "") || 7000,
+    SYNC_BUDGET_MS: parseInt(process.env.JOBS_SYNC_BUDGET_MS || "") || 4000,
+  },
+  RATES: {
+    // Optional JSON file of exchange rates ({ updatedAt, base?, rates })
+    FILE: process.env.EXCHANGE_RATES_FILE || "",
+  },
+  STATIONS: {
+    // Optional JSON array of stations ({ id, name, nameJa, lines, lat, lng })
+    // replacing the bundled list
+    FILE: process.env.STATIONS_FILE || "",
+  },
+  TRAVEL: {
+    // Speed models for travel estimates between itinerary stops (km/h)
+    WALK_KMH: parseFloat(process.env.TRAVEL_WALK_KMH || "") || 4.5,
+    TRANSIT_KMH: parseFloat(process.env.TRAVEL_TRANSIT_KMH || "") || 30,
+    TAXI_KMH: parseFloat(process.env.TRAVEL_TAXI_KMH || "") || 20,
+    // Walking to the station, waiting and transfers
+    TRANSIT_OVERHEAD_MIN: 10,
+    // Streets are longer than the straight line between two points
+    DETOUR_FACTOR: 1.3,
+    // Beyond this, transit is suggested over walking
+    MAX_WALK_KM: 1.5,
+  },
+  INVITES: {
+    // Signs invitation links; falls back to the encryption key
+    SECRET: process.env.INVITE_SECRET || process.env.ENCRYPTION_KEY || "",
+    TTL_DAYS: parseInt(process.env.INVITE_TTL_DAYS || "") || 14,
+    // Frontend page that accepts or declines (?token=...)
+    ACCEPT_URL:
+      process.env.INVITE_ACCEPT_URL ||
+      "https://jp-trip-planner.vercel.app/invitations",
+  },
+  MAIL: {
+    // "smtp", "file" (.eml files in FILE_DIR) or "console". Only development
+    // defaults to "console"; elsewhere sending fails until one is set.
+    TRANSPORT:
+      process.env.MAIL_TRANSPORT ||
+      (process.env.NODE_ENV === "development" ? "console" : ""),
+    FROM: process.env.MAIL_FROM || "JP Trip Planner <no-reply@localhost>",
+    SMTP: {
+      HOST: process.env.SMTP_HOST || "",
+      PORT: parseInt(process.env.SMTP_PORT || "") || 587,
+      SECURE: process.env.SMTP_SECURE === "true", // TLS from the start (465)
+      USER: process.env.SMTP_USER || "",
+      PASS: process.env.SMTP_PASS || "",
+      // Connection, greeting and socket timeouts; a slow server leaves the
+      // message to the job tick instead of holding up the request
+      TIMEOUT_MS: parseInt(process.env.SMTP_TIMEOUT_MS || "") || 5000,
+    },
+    FILE_DIR: process.env.MAIL_FILE_DIR || "mail-outbox",
+    // Public trip pages, for share-link notices (<SHARE_URL>/<slug>)
+    SHARE_URL:
+      process.env.SHARE_URL || "https://jp-trip-planner.vercel.app/share",
+    // Part of each /api/jobs/tick spent retrying failed sends
+    TICK_BUDGET_MS: parseInt(process.env.MAIL_TICK_BUDGET_MS || "") || 2000,
+  },
+  TRASH: {
+    // Trashed locations are purged for good after this many days
+    RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || "") || 30,
+  },
 };
 
 // Simple validation
 const missing = [];
 if (!CONFIG.SUPABASE.URL) missing.push("SUPABASE_URL");
 if (!CONFIG.SUPABASE.SERVICE_KEY) missing.push("SUPABASE_SERVICE_KEY");
+if (!CONFIG.MAIL.TRANSPORT) missing.push("MAIL_TRANSPORT");
 // Anon key is optional for backend if we use service key mostly
 
 if (missing.length > 0) {
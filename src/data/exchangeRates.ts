@@ -0,0 +1,21 @@
+// Fallback exchange rates, used when neither EXCHANGE_RATES_FILE nor a trip
+// override provides a rate. Units of each currency per 1 JPY.
+// Refresh by replacing this table or pointing EXCHANGE_RATES_FILE at a JSON
+// file of the same shape.
+export const BUNDLED_EXCHANGE_RATES = {
+  updatedAt: "2026-10-01T00:00:00Z",
+  rates: {
+    JPY: 1,
+    THB: 0.22,
+    USD: 0.0067,
+    EUR: 0.0062,
+    GBP: 0.0052,
+    AUD: 0.0102,
+    SGD: 0.0088,
+    MYR: 0.031,
+    HKD: 0.052,
+    TWD: 0.21,
+    CNY: 0.048,
+    KRW: 9.3,
+  } as Record<string, number>,
+};
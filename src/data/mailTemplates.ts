@@ -0,0 +1,147 @@
+// Email templates per trip language. Placeholders ({{name}}) are filled by
+// MailService; the HTML version is generated from the text.
+
+import { CollaboratorRole, TripLanguage } from "../types";
+
+export type MailTemplate = "invitation" | "removal" | "shareLink";
+
+export interface MailTemplateText {
+  subject: string;
+  text: string;
+}
+
+export const MAIL_TEMPLATES: Record<
+  MailTemplate,
+  Record<TripLanguage, MailTemplateText>
+> = {
+  // {{inviter}}, {{trip}}, {{role}}, {{link}}, {{expires}}
+  invitation: {
+    en: {
+      subject: '{{inviter}} invited you to "{{trip}}"',
+      text: [
+        "Hi,",
+        "",
+        '{{inviter}} invited you to join the trip "{{trip}}" as {{role}}.',
+        "",
+        "Accept or decline the invitation here:",
+        "{{link}}",
+        "",
+        "The link expires on {{expires}}. If you weren't expecting this, you can ignore this email.",
+      ].join("\n"),
+    },
+    th: {
+      subject: '{{inviter}} เชิญคุณเข้าร่วมทริป "{{trip}}"',
+      text: [
+        "สวัสดี",
+        "",
+        '{{inviter}} เชิญคุณเข้าร่วมทริป "{{trip}}" ในฐานะ{{role}}',
+        "",
+        "ตอบรับหรือปฏิเสธคำเชิญได้ที่:",
+        "{{link}}",
+        "",
+        "ลิงก์นี้จะหมดอายุในวันที่ {{expires}} หากคุณไม่ได้คาดว่าจะได้รับอีเมลนี้ สามารถเพิกเฉยได้",
+      ].join("\n"),
+    },
+    ja: {
+      subject: "{{inviter}}さんから「{{trip}}」への招待が届いています",
+      text: [
+        "こんにちは。",
+        "",
+        "{{inviter}}さんが、旅行「{{trip}}」に{{role}}としてあなたを招待しました。",
+        "",
+        "以下のリンクから招待を承諾または辞退できます:",
+        "{{link}}",
+        "",
+        "このリンクの有効期限は{{expires}}です。心当たりがない場合は、このメールを無視してください。",
+      ].join("\n"),
+    },
+  },
+
+  // {{actor}}, {{trip}}
+  removal: {
+    en: {
+      subject: 'You were removed from "{{trip}}"',
+      text: [
+        "Hi,",
+        "",
+        '{{actor}} removed you from the trip "{{trip}}". You no longer have access to its locations and itinerary.',
+        "",
+        "If you think this was a mistake, contact {{actor}}.",
+      ].join("\n"),
+    },
+    th: {
+      subject: 'คุณถูกนำออกจากทริป "{{trip}}"',
+      text: [
+        "สวัสดี",
+        "",
+        '{{actor}} ได้นำคุณออกจากทริป "{{trip}}" คุณจะไม่สามารถเข้าถึงสถานที่และแผนการเดินทางของทริปนี้ได้อีก',
+        "",
+        "หากคิดว่าเป็นความผิดพลาด กรุณาติดต่อ {{actor}}",
+      ].join("\n"),
+    },
+    ja: {
+      subject: "「{{trip}}」のメンバーから外されました",
+      text: [
+        "こんにちは。",
+        "",
+        "{{actor}}さんが、旅行「{{trip}}」のメンバーからあなたを外しました。この旅行のスポットや旅程にはアクセスできなくなります。",
+        "",
+        "誤りだと思われる場合は、{{actor}}さんにお問い合わせください。",
+      ].join("\n"),
+    },
+  },
+
+  // {{actor}}, {{trip}}, {{link}}
+  shareLink: {
+    en: {
+      subject: 'A public link was created for "{{trip}}"',
+      text: [
+        "Hi,",
+        "",
+        '{{actor}} created a public link for the trip "{{trip}}". Anyone with the link can view its locations and itinerary:',
+        "{{link}}",
+        "",
+        "The link can be turned off again in the trip's sharing settings.",
+      ].join("\n"),
+    },
+    th: {
+      subject: 'มีการสร้างลิงก์สาธารณะสำหรับทริป "{{trip}}"',
+      text: [
+        "สวัสดี",
+        "",
+        '{{actor}} ได้สร้างลิงก์สาธารณะสำหรับทริป "{{trip}}" ทุกคนที่มีลิงก์นี้สามารถดูสถานที่และแผนการเดินทางได้:',
+        "{{link}}",
+        "",
+        "สามารถปิดลิงก์นี้ได้ในการตั้งค่าการแชร์ของทริป",
+      ].join("\n"),
+    },
+    ja: {
+      subject: "「{{trip}}」の公開リンクが作成されました",
+      text: [
+        "こんにちは。",
+        "",
+        "{{actor}}さんが、旅行「{{trip}}」の公開リンクを作成しました。リンクを知っている人は誰でもスポットと旅程を閲覧できます:",
+        "{{link}}",
+        "",
+        "このリンクは旅行の共有設定からいつでも無効にできます。",
+      ].join("\n"),
+    },
+  },
+};
+
+// {{role}} in the invitation, per language
+export const ROLE_LABELS: Record<
+  TripLanguage,
+  Record<CollaboratorRole, string>
+> = {
+  en: { viewer: "a viewer", editor: "an editor", admin: "an admin" },
+  th: { viewer: "ผู้ดู", editor: "ผู้แก้ไข", admin: "ผู้ดูแล" },
+  ja: { viewer: "閲覧者", editor: "編集者", admin: "管理者" },
+};
+
+// Locale for dates in each language
+export const MAIL_LOCALES: Record<TripLanguage, string> = {
+  en: "en-US",
+  th: "th-TH",
+  ja: "ja-JP",
+};
@@ -0,0 +1,96 @@
+// Railway and metro stations near common trip destinations, used when
+// STATIONS_FILE isn't set. Point STATIONS_FILE at a JSON array of the same
+// shape for full coverage (e.g. an export of a national station list).
+
+import { Station } from "../types";
+
+type Row = [string, string, string, number, number, string[]];
+
+// [id, name, nameJa, lat, lng, lines]
+// prettier-ignore
+const ROWS: Row[] = [
+  // Tokyo
+  ["tokyo", "Tokyo", "東京", 35.6812, 139.7671, ["JR Yamanote", "JR Chuo", "Tokaido Shinkansen", "Marunouchi"]],
+  ["shinjuku", "Shinjuku", "新宿", 35.6896, 139.7006, ["JR Yamanote", "JR Chuo", "Odakyu", "Keio", "Marunouchi", "Toei Shinjuku", "Toei Oedo"]],
+  ["shibuya", "Shibuya", "渋谷", 35.658, 139.7016, ["JR Yamanote", "Ginza", "Hanzomon", "Fukutoshin", "Tokyu Toyoko", "Keio Inokashira"]],
+  ["harajuku", "Harajuku", "原宿", 35.6702, 139.7027, ["JR Yamanote"]],
+  ["meiji-jingumae", "Meiji-jingumae", "明治神宮前", 35.6686, 139.7054, ["Chiyoda", "Fukutoshin"]],
+  ["omotesando", "Omotesando", "表参道", 35.6652, 139.7123, ["Ginza", "Chiyoda", "Hanzomon"]],
+  ["ebisu", "Ebisu", "恵比寿", 35.6467, 139.7101, ["JR Yamanote", "Hibiya"]],
+  ["ikebukuro", "Ikebukuro", "池袋", 35.7295, 139.7109, ["JR Yamanote", "Marunouchi", "Yurakucho", "Fukutoshin", "Seibu Ikebukuro", "Tobu Tojo"]],
+  ["ueno", "Ueno", "上野", 35.7141, 139.7774, ["JR Yamanote", "Ginza", "Hibiya", "Tohoku Shinkansen"]],
+  ["akihabara", "Akihabara", "秋葉原", 35.6984, 139.7731, ["JR Yamanote", "JR Sobu", "Hibiya", "Tsukuba Express"]],
+  ["asakusa", "Asakusa", "浅草", 35.7119, 139.7983, ["Ginza", "Toei Asakusa", "Tobu Skytree"]],
+  ["oshiage", "Oshiage (Skytree)", "押上", 35.7104, 139.8133, ["Hanzomon", "Toei Asakusa", "Tobu Skytree", "Keisei Oshiage"]],
+  ["ginza", "Ginza", "銀座", 35.6717, 139.765, ["Ginza", "Marunouchi", "Hibiya"]],
+  ["tsukiji", "Tsukiji", "築地", 35.6681, 139.772, ["Hibiya"]],
+  ["shinagawa", "Shinagawa", "品川", 35.6285, 139.7387, ["JR Yamanote", "Tokaido Shinkansen", "Keikyu"]],
+  ["hamamatsucho", "Hamamatsucho", "浜松町", 35.6555, 139.7571, ["JR Yamanote", "Tokyo Monorail"]],
+  ["roppongi", "Roppongi", "六本木", 35.6628, 139.7314, ["Hibiya", "Toei Oedo"]],
+  ["toyosu", "Toyosu", "豊洲", 35.6549, 139.7964, ["Yurikamome", "Yurakucho"]],
+  ["shin-toyosu", "Shin-Toyosu", "新豊洲", 35.6489, 139.7898, ["Yurikamome"]],
+  ["odaiba-kaihinkoen", "Odaiba-kaihinkoen", "お台場海浜公園", 35.6297, 139.7785, ["Yurikamome"]],
+  ["kichijoji", "Kichijoji", "吉祥寺", 35.7031, 139.5799, ["JR Chuo", "Keio Inokashira"]],
+  ["haneda-t3", "Haneda Airport Terminal 3", "羽田空港第3ターミナル", 35.5444, 139.7686, ["Keikyu Airport", "Tokyo Monorail"]],
+  ["narita-t1", "Narita Airport Terminal 1", "成田空港", 35.7647, 140.3863, ["JR Narita Express", "Keisei Skyliner"]],
+  // Kanagawa
+  ["yokohama", "Yokohama", "横浜", 35.4657, 139.6223, ["JR Tokaido", "Tokyu Toyoko", "Minatomirai", "Keikyu", "Yokohama Blue Line"]],
+  ["minatomirai", "Minatomirai", "みなとみらい", 35.4575, 139.6326, ["Minatomirai"]],
+  ["hakone-yumoto", "Hakone-Yumoto", "箱根湯本", 35.2326, 139.1062, ["Hakone Tozan", "Odakyu"]],
+  ["kawaguchiko", "Kawaguchiko", "河口湖", 35.4984, 138.7686, ["Fujikyuko"]],
+  ["tobu-nikko", "Tobu-Nikko", "東武日光", 36.7479, 139.6193, ["Tobu Nikko"]],
+  // Osaka
+  ["osaka", "Osaka", "大阪", 34.7025, 135.4959, ["JR Osaka Loop", "JR Kyoto", "JR Kobe"]],
+  ["umeda", "Umeda", "梅田", 34.7055, 135.4983, ["Midosuji", "Hankyu", "Hanshin"]],
+  ["shin-osaka", "Shin-Osaka", "新大阪", 34.7334, 135.5001, ["Tokaido Shinkansen", "Sanyo Shinkansen", "JR Kyoto", "Midosuji"]],
+  ["namba", "Namba", "なんば", 34.6664, 135.5005, ["Midosuji", "Yotsubashi", "Sennichimae", "Nankai"]],
+  ["shinsaibashi", "Shinsaibashi", "心斎橋", 34.6746, 135.501, ["Midosuji", "Nagahori Tsurumi-ryokuchi"]],
+  ["nippombashi", "Nippombashi", "日本橋", 34.6658, 135.5061, ["Sakaisuji", "Sennichimae", "Kintetsu Namba"]],
+  ["ebisucho", "Ebisucho", "恵美須町", 34.6526, 135.5057, ["Sakaisuji", "Hankai"]],
+  ["dobutsuen-mae", "Dobutsuen-mae", "動物園前", 34.6503, 135.5053, ["Midosuji", "Sakaisuji"]],
+  ["tennoji", "Tennoji", "天王寺", 34.647, 135.5135, ["JR Osaka Loop", "Midosuji", "Tanimachi", "Kintetsu Minami Osaka"]],
+  ["tanimachi-4", "Tanimachi 4-chome", "谷町四丁目", 34.6823, 135.5179, ["Tanimachi", "Chuo"]],
+  ["osakajokoen", "Osakajokoen", "大阪城公園", 34.6877, 135.5343, ["JR Osaka Loop"]],
+  ["morinomiya", "Morinomiya", "森ノ宮", 34.681, 135.5332, ["JR Osaka Loop", "Chuo", "Nagahori Tsurumi-ryokuchi"]],
+  ["universal-city", "Universal City", "ユニバーサルシティ", 34.6672, 135.4367, ["JR Yumesaki"]],
+  ["osakako", "Osakako", "大阪港", 34.6546, 135.4339, ["Chuo"]],
+  ["kansai-airport", "Kansai Airport", "関西空港", 34.4326, 135.244, ["JR Haruka", "Nankai Airport"]],
+  // Kyoto
+  ["kyoto", "Kyoto", "京都", 34.9858, 135.7588, ["Tokaido Shinkansen", "JR Kyoto", "JR Nara", "JR Sagano", "Karasuma"]],
+  ["shijo", "Shijo", "四条", 35.0037, 135.7597, ["Karasuma"]],
+  ["kyoto-kawaramachi", "Kyoto-Kawaramachi", "京都河原町", 35.0037, 135.7692, ["Hankyu Kyoto"]],
+  ["gion-shijo", "Gion-Shijo", "祇園四条", 35.0036, 135.7722, ["Keihan"]],
+  ["sanjo", "Sanjo", "三条", 35.009, 135.7722, ["Keihan", "Tozai"]],
+  ["kiyomizu-gojo", "Kiyomizu-Gojo", "清水五条", 34.996, 135.7693, ["Keihan"]],
+  ["fushimi-inari", "Fushimi-Inari", "伏見稲荷", 34.9671, 135.7703, ["Keihan"]],
+  ["inari", "Inari", "稲荷", 34.967, 135.7707, ["JR Nara"]],
+  ["demachiyanagi", "Demachiyanagi", "出町柳", 35.03, 135.7727, ["Keihan", "Eizan"]],
+  ["nijojo-mae", "Nijojo-mae", "二条城前", 35.0113, 135.7498, ["Tozai"]],
+  ["keage", "Keage", "蹴上", 35.0049, 135.7907, ["Tozai"]],
+  ["kitano-hakubaicho", "Kitano-Hakubaicho", "北野白梅町", 35.0283, 135.7312, ["Randen Kitano"]],
+  ["arashiyama", "Arashiyama", "嵐山", 35.0106, 135.6781, ["Randen Arashiyama"]],
+  ["saga-arashiyama", "Saga-Arashiyama", "嵯峨嵐山", 35.0183, 135.6812, ["JR Sagano"]],
+  // Nara / Kobe / Himeji
+  ["kintetsu-nara", "Kintetsu-Nara", "近鉄奈良", 34.6843, 135.8279, ["Kintetsu Nara"]],
+  ["nara", "Nara", "奈良", 34.6807, 135.8198, ["JR Yamatoji", "JR Nara"]],
+  ["sannomiya", "Sannomiya", "三ノ宮", 34.6946, 135.1953, ["JR Kobe", "Hankyu Kobe", "Hanshin", "Seishin-Yamate", "Port Liner"]],
+  ["himeji", "Himeji", "姫路", 34.8268, 134.6906, ["Sanyo Shinkansen", "JR Kobe", "Sanyo"]],
+  // Elsewhere
+  ["nagoya", "Nagoya", "名古屋", 35.1709, 136.8815, ["Tokaido Shinkansen", "Higashiyama", "Sakura-dori", "Meitetsu"]],
+  ["kanazawa", "Kanazawa", "金沢", 36.5781, 136.6479, ["Hokuriku Shinkansen", "IR Ishikawa"]],
+  ["hiroshima", "Hiroshima", "広島", 34.3975, 132.4753, ["Sanyo Shinkansen", "JR Sanyo", "Hiroden"]],
+  ["miyajimaguchi", "Miyajimaguchi", "宮島口", 34.3114, 132.3031, ["JR Sanyo", "Hiroden Miyajima"]],
+  ["hakata", "Hakata", "博多", 33.5902, 130.4207, ["Sanyo Shinkansen", "Kyushu Shinkansen", "Kuko"]],
+  ["sapporo", "Sapporo", "札幌", 43.0687, 141.3508, ["JR Hakodate", "Namboku", "Toho"]],
+];
+
+export const BUNDLED_STATIONS: Station[] = ROWS.map(
+  ([id, name, nameJa, lat, lng, lines]) => ({
+    id,
+    name,
+    nameJa,
+    lat,
+    lng,
+    lines,
+  })
+);
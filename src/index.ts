@@ -10,6 +10,14 @@ import locationsRoutes from "./routes/locations.routes";
 import itineraryRoutes from "./routes/itinerary.routes";
 import shareRoutes from "./routes/share.routes";
 import collaboratorRoutes from "./routes/collaborator.routes";
+import jobsRoutes from "./routes/jobs.routes";
+import changesRoutes from "./routes/changes.routes";
+import historyRoutes from "./routes/history.routes";
+import tripsRoutes from "./routes/trips.routes";
+import ratesRoutes from "./routes/rates.routes";
+import expensesRoutes from "./routes/expenses.routes";
+import plansRoutes from "./routes/plans.routes";
+import activityRoutes from "./routes/activity.routes";
 
 const app = express();
 const port = process.env.PORT || 4000;
@@ -56,10 +64,18 @@ app.use(express.json());
 // Routes
 app.use("/auth", authRoutes);
 // app.use("/api/sheets", sheetsRoutes); // Deprecated
+app.use("/api/trips", tripsRoutes);
 app.use("/api/locations", locationsRoutes);
 app.use("/api/itinerary", itineraryRoutes);
 app.use("/api/share", shareRoutes);
 app.use("/api/collaborators", collaboratorRoutes);
+app.use("/api/jobs", jobsRoutes);
+app.use("/api/changes", changesRoutes);
+app.use("/api/history", historyRoutes);
+app.use("/api/rates", ratesRoutes);
+app.use("/api/expenses", expensesRoutes);
+app.use("/api/plans", plansRoutes);
+app.use("/api/activity", activityRoutes);
 
 // Health Check
 app.get("/health", (req: Request, res: Response) => {
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from "express";
+import { CollaboratorService } from "../services/collaboratorService";
+import { TripService } from "../services/trip.service";
+import { TripPermission } from "../types";
+import { can } from "../utils/permissions";
+
+// Resolve the target trip and verify the user may access it (any role can
+// read; writes add requirePermission). Sets req.trip and req.tripRole.
+// tripId can be a route param, in query (GET) or body (POST); defaults to the
+// user's first trip.
+export async function validateAccess(
+  req: any,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const user = (req as Request).user!;
+    const tripId =
+      req.params?.tripId ||
+      req.query.tripId ||
+      req.body?.tripId ||
+      (await TripService.getDefaultTripId(user.id));
+
+    const trip = tripId ? await TripService.getTrip(tripId) : null;
+    if (!trip) {
+      return res.status(404).json({ error: "Trip not found" });
+    }
+
+    const role = await CollaboratorService.getRole(
+      trip,
+      user.email || "",
+      user.id
+    );
+
+    if (!role) {
+      return res.status(403).json({
+        error:
+          "Access Denied: You do not have permission to view/edit this trip.",
+      });
+    }
+
+    // Attach the trip and the user's role to req for convenience
+    req.tripId = trip.id;
+    req.trip = trip;
+    req.tripRole = role;
+    next();
+  } catch (e) {
+    console.error("Access Validation Error:", e);
+    return res
+      .status(500)
+      .json({ error: "Internal Server Error during access check" });
+  }
+}
+
+// Require a permission of the user's role in the trip (after validateAccess).
+// See utils/permissions for what each role may do.
+export function requirePermission(permission: TripPermission) {
+  return (req: any, res: Response, next: NextFunction) => {
+    if (!can(req.tripRole, permission)) {
+      return res.status(403).json({
+        error: `Your role (${req.tripRole}) does not allow this action`,
+        role: req.tripRole,
+        required: permission,
+      });
+    }
+    next();
+  };
+}
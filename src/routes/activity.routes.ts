@@ -0,0 +1,45 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.middleware";
+import { validateAccess } from "../middleware/access.middleware";
+import { ACTIVITY_TYPES, ActivityService } from "../services/activity.service";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// A full type ("location.delete") or its group ("location")
+const ACTIVITY_GROUPS = [
+  ...new Set(ACTIVITY_TYPES.map((type) => type.split(".")[0])),
+];
+
+// Validation Schemas
+const ListActivitySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  before: z.coerce.number().int().optional(),
+  actor: z.string().min(1).optional(), // User ID, email or "system"
+  type: z.enum([...ACTIVITY_TYPES, ...ACTIVITY_GROUPS]).optional(),
+});
+
+// GET /api/activity?tripId=...&limit=50&before=<id>&actor=...&type=...
+// Who changed what, newest first. `nextBefore` fetches the next page.
+router.get("/", validateAccess, async (req: any, res) => {
+  try {
+    const filter = ListActivitySchema.parse(req.query);
+    const activity = await ActivityService.list(req.tripId, filter);
+    const limit = filter.limit || 50;
+    res.json({
+      activity,
+      nextBefore:
+        activity.length === limit ? activity[activity.length - 1].id : null,
+    });
+  } catch (e: any) {
+    if (e instanceof z.ZodError) {
+      res.status(400).json({ error: e.issues });
+    } else {
+      res.status(500).json({ error: e.message });
+    }
+  }
+});
+
+export default router;
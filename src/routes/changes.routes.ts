@@ -0,0 +1,55 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.middleware";
+import { validateAccess } from "../middleware/access.middleware";
+import { ChangeFeedService } from "../services/changeFeed.service";
+import {
+  getItineraryFromDb,
+  getLocationsFromDb,
+} from "../services/syncService";
+
+const router = Router();
+
+router.use(requireAuth);
+
+const ChangesQuerySchema = z.object({
+  since: z.coerce.number().int().min(0).optional(),
+});
+
+// GET /api/changes?tripId=...&since=<cursor>
+// Without `since`: full snapshot (everything as "added") plus the current
+// cursor. With `since`: only what changed after that cursor, with tombstones
+// (IDs) for removed locations and itinerary items.
+router.get("/", validateAccess, async (req: any, res) => {
+  try {
+    const { since } = ChangesQuerySchema.parse(req.query);
+
+    if (since === undefined) {
+      // Read the cursor first so nothing written meanwhile is skipped
+      const cursor = await ChangeFeedService.getCursor(req.tripId);
+      const [locations, itinerary] = await Promise.all([
+        getLocationsFromDb(req.tripId),
+        getItineraryFromDb(req.tripId),
+      ]);
+      res.json({
+        cursor,
+        hasMore: false,
+        full: true,
+        locations: { added: locations, updated: [], removed: [] },
+        itinerary: { added: itinerary, updated: [], removed: [] },
+      });
+      return;
+    }
+
+    const changes = await ChangeFeedService.getChangesSince(req.tripId, since);
+    res.json({ ...changes, full: false });
+  } catch (e: any) {
+    if (e instanceof z.ZodError) {
+      res.status(400).json({ error: e.issues });
+    } else {
+      res.status(500).json({ error: e.message });
+    }
+  }
+});
+
+export default router;
@@ -1,7 +1,20 @@
 import { Router } from "express";
 import { z } from "zod";
 import { CollaboratorService } from "../services/collaboratorService";
+import { TripService } from "../services/trip.service";
 import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import { InvitationService } from "../services/invitation.service";
+import { NotificationService } from "../services/notification.service";
+import { ActivityService } from "../services/activity.service";
+import { contextFromRequest } from "../utils/mutationContext";
+import {
+  COLLABORATOR_ROLES,
+  DEFAULT_COLLABORATOR_ROLE,
+} from "../utils/permissions";
 
 const router = Router();
 
@@ -9,111 +22,339 @@ const router = Router();
 router.use(requireAuth);
 
 // --- Validation Schemas ---
+const RoleSchema = z.enum(COLLABORATOR_ROLES);
+
 const InviteSchema = z.object({
   email: z.string().email(),
+  role: RoleSchema.optional(), // Defaults to "editor"
+});
+
+const SetRoleSchema = z.object({
+  role: RoleSchema,
 });
 
 const EmailParamSchema = z.object({
   email: z.string().email(),
 });
 
-// --- Routes ---
+const InvitationStatusSchema = z.object({
+  status: z.enum(["pending", "accepted", "declined", "expired"]).optional(),
+});
 
-// GET /api/collaborators
-// List invitees for a trip (if I have access)
-router.get("/", async (req, res) => {
-  try {
-    const requestedOwnerId = (req.query.ownerId as string) || req.user!.id;
-    const userId = req.user!.id;
-    const userEmail = req.user!.email;
+// The token from the invitation link, or the ID from /accessible
+const RespondSchema = z.union([
+  z.object({ token: z.string().min(1) }),
+  z.object({ invitationId: z.string().min(1) }),
+]);
 
-    if (!userEmail) {
-      res.status(400).json({ error: "User email required" });
-      return;
+const handleInvitationError = (res: any, e: any) => {
+  if (e instanceof z.ZodError) {
+    res.status(400).json({ error: e.issues });
+  } else if (e.message === "Invitation not found") {
+    res.status(404).json({ error: e.message });
+  } else if (
+    e.message === "Invalid invitation token" ||
+    e.message === "Invitation is for another email"
+  ) {
+    res.status(403).json({ error: e.message });
+  } else if (e.message === "Invitation expired") {
+    res.status(410).json({ error: e.message });
+  } else if (
+    e.message === "Already a collaborator" ||
+    e.message?.startsWith("Invitation already")
+  ) {
+    res.status(409).json({ error: e.message });
+  } else {
+    res.status(500).json({ error: e.message });
+  }
+};
+
+// Admins manage viewers and editors; only the owner grants or revokes admin
+const touchesAdmin = async (req: any, email: string, role?: string) => {
+  if (req.tripRole === "owner") return false;
+  if (role === "admin") return true;
+  const current = await CollaboratorService.getCollaborator(req.tripId, email);
+  return current?.role === "admin";
+};
+
+// --- Routes ---
+
+// GET /api/collaborators?tripId=...
+// List invitees for a trip with their roles (owner and admins)
+router.get(
+  "/",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const collaborators = await CollaboratorService.listCollaborators(
+        req.tripId
+      );
+      res.json(collaborators);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message || "Invalid request" });
     }
+  }
+);
 
-    // Validate access: must be owner OR collaborator
-    const hasAccess = await CollaboratorService.hasAccess(
-      requestedOwnerId,
-      userEmail,
-      userId
-    );
+// POST /api/collaborators/invite
+// Invite someone to a trip as viewer, editor or admin (owner and admins).
+// They get access once they accept; the response carries the signed link.
+router.post(
+  "/invite",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const parsed = InviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: "Valid email and role required" });
+        return;
+      }
+      const { email, role } = parsed.data;
 
-    if (!hasAccess) {
-      res.status(403).json({ error: "Access denied" });
-      return;
+      if (await touchesAdmin(req, email, role)) {
+        res.status(403).json({ error: "Only trip owner can manage admins" });
+        return;
+      }
+
+      const result = await InvitationService.create(
+        req.tripId,
+        email,
+        role || DEFAULT_COLLABORATOR_ROLE,
+        req.user.id
+      );
+      await ActivityService.record(req.tripId, contextFromRequest(req), {
+        type: "collaborator.invite",
+        target: result.invitation.email,
+        summary: result.invitation.email,
+        after: {
+          role: result.invitation.role,
+          expiresAt: result.invitation.expires_at,
+        },
+      });
+      const delivery = await NotificationService.invitation(
+        req.trip,
+        result.invitation,
+        result.inviteUrl,
+        req.user.email || null
+      );
+      res.json({ success: true, ...result, delivery });
+    } catch (e: any) {
+      handleInvitationError(res, e);
     }
+  }
+);
 
-    // Only trip owner can list collaborators (not collaborators themselves)
-    if (requestedOwnerId !== userId) {
-      res
-        .status(403)
-        .json({ error: "Only trip owner can manage collaborators" });
-      return;
+// GET /api/collaborators/invitations?tripId=...&status=pending
+// Invitations of a trip and where they stand (owner and admins)
+router.get(
+  "/invitations",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const { status } = InvitationStatusSchema.parse(req.query);
+      const invitations = await InvitationService.list(req.tripId, status);
+      res.json({ invitations });
+    } catch (e: any) {
+      handleInvitationError(res, e);
     }
+  }
+);
 
-    const collaborators = await CollaboratorService.listCollaborators(
-      requestedOwnerId
-    );
-    res.json(collaborators);
-  } catch (e: any) {
-    res.status(400).json({ error: e.message || "Invalid request" });
+// POST /api/collaborators/invitations/:id/resend
+// New expiry and link for a pending or expired invitation
+router.post(
+  "/invitations/:id/resend",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const current = await InvitationService.get(req.tripId, req.params.id);
+      if (await touchesAdmin(req, current.email, current.role)) {
+        res.status(403).json({ error: "Only trip owner can manage admins" });
+        return;
+      }
+
+      const result = await InvitationService.resend(req.tripId, current.id);
+      await ActivityService.record(req.tripId, contextFromRequest(req), {
+        type: "collaborator.invite",
+        target: current.email,
+        summary: current.email,
+        before: { status: current.status, expiresAt: current.expires_at },
+        after: {
+          role: result.invitation.role,
+          expiresAt: result.invitation.expires_at,
+          resent: true,
+        },
+      });
+      const delivery = await NotificationService.invitation(
+        req.trip,
+        result.invitation,
+        result.inviteUrl,
+        req.user.email || null
+      );
+      res.json({ success: true, ...result, delivery });
+    } catch (e: any) {
+      handleInvitationError(res, e);
+    }
   }
-});
+);
 
-// POST /api/collaborators/invite
-// Invite someone to a trip (owner only)
-router.post("/invite", async (req, res) => {
-  try {
-    const { email, ownerId: requestedOwnerId } = req.body;
-    const ownerId = requestedOwnerId || req.user!.id;
-    const userId = req.user!.id;
+// DELETE /api/collaborators/invitations/:id?tripId=...
+// Withdraw an invitation
+router.delete(
+  "/invitations/:id",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const current = await InvitationService.get(req.tripId, req.params.id);
+      if (await touchesAdmin(req, current.email, current.role)) {
+        res.status(403).json({ error: "Only trip owner can manage admins" });
+        return;
+      }
 
-    // Only the trip owner can invite collaborators
-    if (ownerId !== userId) {
-      res
-        .status(403)
-        .json({ error: "Only trip owner can invite collaborators" });
-      return;
+      await InvitationService.revoke(req.tripId, current.id);
+      await ActivityService.record(req.tripId, contextFromRequest(req), {
+        type: "collaborator.uninvite",
+        target: current.email,
+        summary: current.email,
+        before: { role: current.role, status: current.status },
+      });
+      res.json({ success: true });
+    } catch (e: any) {
+      handleInvitationError(res, e);
     }
+  }
+);
 
-    if (!email || typeof email !== "string") {
-      res.status(400).json({ error: "Valid email required" });
-      return;
+// POST /api/collaborators/invitations/accept
+// POST /api/collaborators/invitations/decline
+// Answer an invitation addressed to my email: { token } or { invitationId }
+for (const answer of ["accept", "decline"] as const) {
+  router.post(`/invitations/${answer}`, async (req, res) => {
+    try {
+      const email = req.user!.email;
+      if (!email) {
+        res.status(400).json({ error: "User email not found in token" });
+        return;
+      }
+
+      const ref = RespondSchema.parse(req.body);
+      const invitation = await InvitationService.respond(
+        email,
+        ref,
+        answer === "accept"
+      );
+      if (invitation.status === "accepted") {
+        await ActivityService.record(
+          invitation.trip_id,
+          contextFromRequest(req),
+          {
+            type: "collaborator.join",
+            target: invitation.email,
+            summary: invitation.email,
+            after: { role: invitation.role },
+          }
+        );
+      }
+      res.json({ success: true, invitation });
+    } catch (e: any) {
+      handleInvitationError(res, e);
     }
+  });
+}
 
-    await CollaboratorService.inviteCollaborator(ownerId, email);
-    res.json({ success: true });
-  } catch (e: any) {
-    res.status(400).json({ error: e.message || "Failed to invite" });
-  }
-});
+// PATCH /api/collaborators/:email - Change someone's role (owner and admins)
+router.patch(
+  "/:email",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const { email } = EmailParamSchema.parse(req.params);
+      const { role } = SetRoleSchema.parse(req.body);
 
-// DELETE /api/collaborators/:email
-// Remove someone from a trip (owner only)
-router.delete("/:email", async (req, res) => {
-  try {
-    const { email } = EmailParamSchema.parse(req.params);
-    const requestedOwnerId = (req.query.ownerId as string) || req.user!.id;
-    const userId = req.user!.id;
+      if (await touchesAdmin(req, email, role)) {
+        res.status(403).json({ error: "Only trip owner can manage admins" });
+        return;
+      }
 
-    // Only the trip owner can remove collaborators
-    if (requestedOwnerId !== userId) {
-      res
-        .status(403)
-        .json({ error: "Only trip owner can remove collaborators" });
-      return;
+      const previous = await CollaboratorService.getCollaborator(
+        req.tripId,
+        email
+      );
+      const collaborator = await CollaboratorService.setRole(
+        req.tripId,
+        email,
+        role
+      );
+      await ActivityService.record(req.tripId, contextFromRequest(req), {
+        type: "collaborator.role",
+        target: collaborator.email,
+        summary: collaborator.email,
+        before: { role: previous?.role ?? null },
+        after: { role },
+      });
+      res.json(collaborator);
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        res.status(400).json({ error: e.issues });
+      } else if (e.message === "Collaborator not found") {
+        res.status(404).json({ error: e.message });
+      } else {
+        res.status(400).json({ error: e.message || "Failed to change role" });
+      }
     }
+  }
+);
 
-    await CollaboratorService.removeCollaborator(requestedOwnerId, email);
-    res.json({ success: true });
-  } catch (e: any) {
-    res.status(400).json({ error: e.message || "Failed to remove" });
+// DELETE /api/collaborators/:email?tripId=...
+// Remove someone from a trip (owner and admins)
+router.delete(
+  "/:email",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const { email } = EmailParamSchema.parse(req.params);
+
+      if (await touchesAdmin(req, email)) {
+        res.status(403).json({ error: "Only trip owner can manage admins" });
+        return;
+      }
+
+      const existing = await CollaboratorService.getCollaborator(
+        req.tripId,
+        email
+      );
+      await CollaboratorService.removeCollaborator(req.tripId, email);
+      // An old invitation link must not bring them back
+      await InvitationService.revokeForEmail(req.tripId, email);
+      if (existing) {
+        await ActivityService.record(req.tripId, contextFromRequest(req), {
+          type: "collaborator.remove",
+          target: existing.email,
+          summary: existing.email,
+          before: { role: existing.role },
+        });
+        await NotificationService.removal(
+          req.trip,
+          email,
+          req.user.email || null
+        );
+      }
+      res.json({ success: true });
+    } catch (e: any) {
+      res.status(400).json({ error: e.message || "Failed to remove" });
+    }
   }
-});
+);
 
 // GET /api/collaborators/accessible
-// List trips shared WITH me
+// Trips shared WITH me, and invitations waiting for my answer
 router.get("/accessible", async (req, res) => {
   try {
     const email = req.user!.email;
@@ -121,8 +362,11 @@ router.get("/accessible", async (req, res) => {
       res.status(400).json({ error: "User email not found in token" });
       return;
     }
-    const trips = await CollaboratorService.getSharedTrips(email);
-    res.json(trips);
+    const [trips, invitations] = await Promise.all([
+      CollaboratorService.getSharedTrips(email),
+      InvitationService.listForEmail(email),
+    ]);
+    res.json({ trips, invitations });
   } catch (e: any) {
     console.error("[GET /accessible] Error fetching trips:", e);
     res
@@ -130,11 +374,11 @@ router.get("/accessible", async (req, res) => {
       .json({ error: e.message || "Failed to fetch accessible trips" });
   }
 });
-// GET /api/collaborator/:ownerId/profile
-// Get the profile of a trip owner (if I have access)
-router.get("/:ownerId/profile", async (req, res) => {
+// GET /api/collaborators/:tripId/profile
+// Get a trip and the profile of its owner (if I have access)
+router.get("/:tripId/profile", async (req, res) => {
   try {
-    const { ownerId } = req.params;
+    const { tripId } = req.params;
     const userEmail = req.user!.email;
     const userId = req.user!.id;
 
@@ -143,8 +387,14 @@ router.get("/:ownerId/profile", async (req, res) => {
       return;
     }
 
+    const trip = await TripService.getTrip(tripId);
+    if (!trip) {
+      res.status(404).json({ error: "Trip not found" });
+      return;
+    }
+
     const hasAccess = await CollaboratorService.hasAccess(
-      ownerId,
+      trip,
       userEmail,
       userId
     );
@@ -155,8 +405,8 @@ router.get("/:ownerId/profile", async (req, res) => {
     }
 
     // Fetch profile using Service Role (via CollaboratorService helper)
-    const profile = await CollaboratorService.getOwnerProfile(ownerId);
-    res.json(profile);
+    const profile = await CollaboratorService.getOwnerProfile(trip.owner_id);
+    res.json({ ...profile, trip });
   } catch (e: any) {
     res.status(400).json({ error: e.message || "Failed to fetch profile" });
   }
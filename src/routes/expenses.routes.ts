@@ -0,0 +1,192 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import {
+  EXPENSE_CATEGORIES,
+  ExpenseService,
+} from "../services/expense.service";
+import { contextFromRequest } from "../utils/mutationContext";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation Schemas
+const CurrencySchema = z.string().regex(/^[A-Z]{3}$/, "Use an ISO 4217 code");
+
+const ExpenseSchema = z.object({
+  amount: z.number().positive(),
+  currency: CurrencySchema,
+  category: z.enum(EXPENSE_CATEGORIES),
+  payer: z.email().optional(), // Defaults to me
+  splitMode: z.enum(["equal", "shares", "exact"]).optional(),
+  splits: z
+    .array(
+      z.object({
+        email: z.email(),
+        share: z.number().positive().optional(), // "shares" mode
+        amount: z.number().min(0).optional(), // "exact" mode
+      })
+    )
+    .optional(), // Defaults to everyone in the trip
+  locationId: z.string().min(1).nullable().optional(),
+  day: z.string().trim().min(1).max(50).nullable().optional(),
+  note: z.string().max(500).optional(),
+  spentOn: z.iso.date().nullable().optional(),
+});
+
+const UpdateExpenseSchema = ExpenseSchema.partial();
+
+const SummarySchema = z.object({
+  currency: CurrencySchema.optional(), // Defaults to the home currency
+});
+
+const MirrorSchema = z.object({
+  enabled: z.boolean(),
+});
+
+const handleError = (res: any, e: any) => {
+  if (e instanceof z.ZodError) {
+    res.status(400).json({ error: e.issues });
+  } else if (
+    e.message === "Expense not found" ||
+    e.message === "Location not found"
+  ) {
+    res.status(404).json({ error: e.message });
+  } else if (
+    e.message?.startsWith("No exchange rate") ||
+    /participant|^Split/i.test(e.message || "")
+  ) {
+    res.status(400).json({ error: e.message });
+  } else {
+    res.status(500).json({ error: e.message });
+  }
+};
+
+// GET /api/expenses?tripId=...
+router.get("/", validateAccess, async (req: any, res) => {
+  try {
+    const expenses = await ExpenseService.list(req.tripId);
+    res.json({ expenses });
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/expenses/summary?tripId=...&currency=THB
+// Totals per day, category and city against estimated location prices
+router.get("/summary", validateAccess, async (req: any, res) => {
+  try {
+    const { currency } = SummarySchema.parse(req.query);
+    res.json(await ExpenseService.summarize(req.tripId, currency));
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/expenses/participants?tripId=...
+// The owner and collaborators, who can pay for and share expenses
+router.get("/participants", validateAccess, async (req: any, res) => {
+  try {
+    const participants = await ExpenseService.listParticipants(req.tripId);
+    res.json({ participants });
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/expenses/balances?tripId=...
+// Net positions in the home currency and the transfers to settle up
+router.get("/balances", validateAccess, async (req: any, res) => {
+  try {
+    res.json(await ExpenseService.balances(req.tripId));
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// PUT /api/expenses/sheet - Mirror expenses to an "Expenses" tab (manage)
+router.put(
+  "/sheet",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const { enabled } = MirrorSchema.parse(req.body);
+      await ExpenseService.setSheetMirror(req.tripId, enabled);
+      res.json({ success: true, enabled });
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// POST /api/expenses - Record an expense
+router.post(
+  "/",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const { payer, ...input } = ExpenseSchema.parse(req.body);
+      const email = payer || req.user.email;
+      if (!email) {
+        return res.status(400).json({ error: "User email not found in token" });
+      }
+      const expense = await ExpenseService.create(
+        req.tripId,
+        { ...input, payer: email.toLowerCase().trim() },
+        contextFromRequest(req)
+      );
+      res.status(201).json(expense);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// PATCH /api/expenses/:expenseId?tripId=...
+router.patch(
+  "/:expenseId",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const input = UpdateExpenseSchema.parse(req.body);
+      const expense = await ExpenseService.update(
+        req.tripId,
+        req.params.expenseId,
+        input,
+        contextFromRequest(req)
+      );
+      res.json(expense);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// DELETE /api/expenses/:expenseId?tripId=...
+router.delete(
+  "/:expenseId",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      await ExpenseService.remove(
+        req.tripId,
+        req.params.expenseId,
+        contextFromRequest(req)
+      );
+      res.json({ success: true });
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+export default router;
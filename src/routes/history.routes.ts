@@ -0,0 +1,100 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import { HistoryService } from "../services/history.service";
+import { restoreTripVersion } from "../services/syncService";
+import { contextFromRequest } from "../utils/mutationContext";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation Schemas
+const ListVersionsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  before: z.coerce.number().int().optional(),
+});
+
+const DiffSchema = z.object({
+  from: z.coerce.number().int(),
+  to: z.coerce.number().int(),
+});
+
+const VersionIdSchema = z.object({
+  id: z.coerce.number().int(),
+});
+
+const handleError = (res: any, e: any) => {
+  if (e instanceof z.ZodError) {
+    res.status(400).json({ error: e.issues });
+  } else if (e.message === "Version not found") {
+    res.status(404).json({ error: e.message });
+  } else {
+    res.status(500).json({ error: e.message });
+  }
+};
+
+// GET /api/history?tripId=...&limit=50&before=<id>
+// Versions newest first: who made them and through which route
+router.get("/", validateAccess, async (req: any, res) => {
+  try {
+    const { limit, before } = ListVersionsSchema.parse(req.query);
+    const versions = await HistoryService.listVersions(
+      req.tripId,
+      limit,
+      before
+    );
+    res.json({ versions });
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/history/diff?from=<id>&to=<id>
+router.get("/diff", validateAccess, async (req: any, res) => {
+  try {
+    const { from, to } = DiffSchema.parse(req.query);
+    const diff = await HistoryService.diffVersions(req.tripId, from, to);
+    res.json(diff);
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/history/:id - Full snapshot of one version
+router.get("/:id", validateAccess, async (req: any, res) => {
+  try {
+    const { id } = VersionIdSchema.parse(req.params);
+    const version = await HistoryService.getVersion(req.tripId, id);
+    res.json(version);
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// POST /api/history/:id/restore
+// Rewrites the sheet and cache with this version (owner and admins)
+router.post(
+  "/:id/restore",
+  validateAccess,
+  requirePermission("destroy"),
+  async (req: any, res) => {
+    try {
+      const { id } = VersionIdSchema.parse(req.params);
+      const result = await restoreTripVersion(
+        req.tripId,
+        id,
+        contextFromRequest(req)
+      );
+      res.json(result);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+export default router;
@@ -4,70 +4,159 @@ import {
   syncItinerary,
   getItineraryFromDb,
   updateItineraryInSheet,
+  getItineraryState,
+  itineraryEtag,
+  addItineraryItem,
+  updateItineraryItem,
+  moveItineraryItem,
+  removeItineraryItem,
+  ItineraryPatchResult,
 } from "../services/syncService";
 import { requireAuth } from "../middleware/auth.middleware";
-import { CollaboratorService } from "../services/collaboratorService";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import { contextFromRequest } from "../utils/mutationContext";
+import { TrashService } from "../services/trash.service";
+import { ItineraryItem } from "../types";
+import { TripService } from "../services/trip.service";
+import { ItineraryPlanner } from "../services/itineraryPlanner.service";
+import { IntegrityService } from "../services/integrity.service";
+import { checkSchedule } from "../utils/schedule";
+import { can } from "../utils/permissions";
 
 const router = Router();
 
 router.use(requireAuth);
 
-// Helper to validate access
-const validateAccess = async (req: any, res: any, next: any) => {
-  try {
-    // ownerId can be in query (GET) or body (POST)
-    const targetOwnerId = req.query.ownerId || req.body.ownerId || req.user.id;
-    const user = req.user!;
-
-    const hasAccess = await CollaboratorService.hasAccess(
-      targetOwnerId,
-      user.email || "",
-      user.id
-    );
-
-    if (!hasAccess) {
-      return res
-        .status(403)
-        .json({
-          error:
-            "Access Denied: You do not have permission to view/edit this trip.",
-        });
-    }
-
-    // Attach targetOwnerId to req for convenience
-    req.targetOwnerId = targetOwnerId;
-    next();
-  } catch (e) {
-    console.error("Access Validation Error:", e);
-    return res
-      .status(500)
-      .json({ error: "Internal Server Error during access check" });
-  }
-};
-
 // Validation Schemas
-const OwnerIdSchema = z.object({
-  ownerId: z.string().uuid().or(z.string().min(1)).optional(), // Made optional because we default to req.user.id
+const TripIdSchema = z.object({
+  tripId: z.string().uuid().or(z.string().min(1)).optional(), // Made optional because we default to the user's first trip
 });
 
-const ItineraryItemSchema = z.object({
+const ItemFieldsSchema = z.object({
   day: z.string(),
   locationId: z.string(),
-  order: z.number(),
   note: z.string().optional(),
+  date: z.iso.date().nullable().optional(), // Defaults to the day's date
+  startTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM")
+    .nullable()
+    .optional(),
+  durationMinutes: z.number().int().min(1).max(1440).nullable().optional(),
+  fixedTime: z.boolean().optional(),
 });
 
+const fixedNeedsTime = (item: { fixedTime?: boolean; startTime?: any }) =>
+  !item.fixedTime || !!item.startTime;
+
+const ItineraryItemSchema = ItemFieldsSchema.extend({
+  id: z.string().optional(), // Omitted for newly added items
+  order: z.number(),
+}).refine(fixedNeedsTime, { message: "fixedTime needs a startTime" });
+
 const UpdateItinerarySchema = z.object({
-  ownerId: z.string().min(1),
+  tripId: z.string().min(1),
   items: z.array(ItineraryItemSchema),
 });
 
-// GET /api/itinerary/sync?ownerId=...
-router.get("/sync", validateAccess, async (req: any, res) => {
+const AddItemSchema = z.object({
+  item: ItemFieldsSchema.extend({
+    order: z.number().optional(), // Defaults to the end of the day
+  }).refine(fixedNeedsTime, { message: "fixedTime needs a startTime" }),
+});
+
+const UpdateItemSchema = z.object({
+  changes: ItemFieldsSchema.extend({ order: z.number() }).partial(),
+});
+
+const MoveItemSchema = z.object({
+  day: z.string().min(1),
+  position: z.number().int().min(1), // 1-based place within the day
+  date: z.iso.date().nullable().optional(),
+});
+
+const GenerateSchema = z
+  .object({
+    startDate: z.iso.date().optional(), // Defaults to the trip dates
+    endDate: z.iso.date().optional(),
+    days: z
+      .array(
+        z.object({
+          date: z.iso.date(),
+          city: z.string().trim().min(1).optional(), // Picked if omitted
+        })
+      )
+      .optional(),
+    maxStopsPerDay: z.number().int().min(1).max(20).optional(),
+    mealsPerDay: z.number().int().min(0).max(5).optional(),
+    mustInclude: z.array(z.string().min(1)).optional(),
+    apply: z.boolean().optional(),
+  })
+  .refine(
+    (input) =>
+      !input.startDate || !input.endDate || input.startDate <= input.endDate,
+    { message: "endDate must not be before startDate" }
+  );
+
+const RepairSchema = z.object({
+  dryRun: z.boolean().optional(), // Only report what would be changed
+});
+
+const ReadItinerarySchema = z.object({
+  travel: z.enum(["true", "false"]).optional(), // Annotate travel between stops
+});
+
+const OptimizeDaySchema = z.object({
+  day: z.string().min(1),
+  pinFirst: z.boolean().optional(),
+  pinLast: z.boolean().optional(),
+  startLocationId: z.string().min(1).optional(),
+  endLocationId: z.string().min(1).optional(),
+  apply: z.boolean().optional(),
+});
+
+// Items as returned by the read endpoints. With ?travel=true the response is
+// { items, days }: each item carries the travel from the previous stop and
+// each day its totals.
+// The ETag header carries the itinerary version for If-Match.
+const readResponse = async (req: any, res: any, data: ItineraryItem[]) => {
+  const { travel } = ReadItinerarySchema.parse(req.query);
+  res.set("ETag", `"${itineraryEtag(data)}"`);
+  const items = await TrashService.flagItinerary(req.tripId, data);
+  if (travel !== "true") return items;
+  return ItineraryPlanner.annotateTravel(req.tripId, items);
+};
+
+// GET /api/itinerary/sync?tripId=...&travel=true
+// Items whose location is in the trash are returned with locationTrashed.
+// Rewrites the cache from the sheet, so viewers read GET / instead.
+router.get(
+  "/sync",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      // Trigger sync from sheet
+      const data = await syncItinerary(req.tripId, contextFromRequest(req));
+      res.json(await readResponse(req, res, data));
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        res.status(400).json({ error: e.issues });
+      } else {
+        res.status(500).json({ error: e.message });
+      }
+    }
+  }
+);
+
+// GET /api/itinerary?tripId=...&travel=true
+router.get("/", validateAccess, async (req: any, res) => {
   try {
-    // Trigger sync from sheet
-    const data = await syncItinerary(req.targetOwnerId);
-    res.json(data);
+    const data = await getItineraryFromDb(req.tripId);
+    res.json(await readResponse(req, res, data));
   } catch (e: any) {
     if (e instanceof z.ZodError) {
       res.status(400).json({ error: e.issues });
@@ -77,34 +166,316 @@ router.get("/sync", validateAccess, async (req: any, res) => {
   }
 });
 
-// GET /api/itinerary?ownerId=...
-router.get("/", validateAccess, async (req: any, res) => {
+// The itinerary version a write expects: the If-Match header (as sent back
+// from the ETag header), or `version` in the body or query.
+const expectedVersion = (req: any): string | undefined => {
+  const header = req.get("If-Match");
+  if (header && header !== "*") {
+    return header.replace(/^W\//, "").replace(/"/g, "").trim();
+  }
+  return req.body?.version || req.query.version || undefined;
+};
+
+// 409 with the current itinerary, so the client can rebase its change
+const sendConflict = async (res: any, tripId: string) => {
+  const { items, etag } = await getItineraryState(tripId);
+  res.set("ETag", `"${etag}"`);
+  res.status(409).json({ error: "Itinerary changed", items, etag });
+};
+
+const sendPatchResult = (
+  res: any,
+  result: ItineraryPatchResult & { item?: ItineraryItem | null },
+  status = 200
+) => {
+  if (result.status === "conflict") {
+    res.set("ETag", `"${result.etag}"`);
+    return res.status(409).json({
+      error: "Itinerary changed",
+      items: result.items,
+      etag: result.etag,
+    });
+  }
+  if (result.status === "invalid") {
+    const { status: _status, ...problem } = result;
+    return res.status(400).json(problem);
+  }
+  const { status: _status, ...body } = result;
+  res.set("ETag", `"${result.etag}"`);
+  res.status(status).json(body);
+};
+
+const sendItemError = (res: any, e: any) => {
+  if (e instanceof z.ZodError) {
+    res.status(400).json({ error: e.issues });
+  } else if (e.message === "Item not found") {
+    res.status(404).json({ error: e.message });
+  } else {
+    res.status(500).json({ error: e.message });
+  }
+};
+
+// POST /api/itinerary/update
+// Replaces the whole itinerary (owner and admins; editors use the item
+// operations below). If-Match (or version) is optional here; when given, a
+// stale version is refused with 409 instead of overwriting the newer one.
+router.post(
+  "/update",
+  validateAccess,
+  requirePermission("destroy"),
+  async (req: any, res) => {
+    try {
+      const { items } = UpdateItinerarySchema.parse(req.body);
+
+      // Dates must fall inside the trip and timed items must not overlap
+      const { startDate, endDate } = TripService.toSettings(req.trip);
+      const problem = checkSchedule(items, startDate, endDate);
+      if (problem) return res.status(400).json(problem);
+
+      const result = await updateItineraryInSheet(
+        req.tripId,
+        items,
+        contextFromRequest(req),
+        expectedVersion(req)
+      );
+      res.set("ETag", `"${result.etag}"`);
+      res.json(result);
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        res.status(400).json({ error: e.issues });
+      } else if (e.message === "Itinerary changed") {
+        await sendConflict(res, req.tripId);
+      } else {
+        res.status(500).json({ error: e.message });
+      }
+    }
+  }
+);
+
+// Item operations below need the version the client last read (If-Match:
+// "<etag>" or version); 428 without it, 409 with the current itinerary if
+// someone else changed it since. Only the affected sheet rows are written.
+
+// POST /api/itinerary/items
+router.post(
+  "/items",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const version = expectedVersion(req);
+      if (!version) {
+        return res.status(428).json({ error: "If-Match header is required" });
+      }
+      const { item } = AddItemSchema.parse(req.body);
+      const result = await addItineraryItem(
+        req.tripId,
+        item,
+        version,
+        contextFromRequest(req)
+      );
+      sendPatchResult(res, result, 201);
+    } catch (e: any) {
+      sendItemError(res, e);
+    }
+  }
+);
+
+// PATCH /api/itinerary/items/:itemId
+router.patch(
+  "/items/:itemId",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const version = expectedVersion(req);
+      if (!version) {
+        return res.status(428).json({ error: "If-Match header is required" });
+      }
+      const { changes } = UpdateItemSchema.parse(req.body);
+      const result = await updateItineraryItem(
+        req.tripId,
+        req.params.itemId,
+        changes,
+        version,
+        contextFromRequest(req)
+      );
+      sendPatchResult(res, result);
+    } catch (e: any) {
+      sendItemError(res, e);
+    }
+  }
+);
+
+// POST /api/itinerary/items/:itemId/move
+// Body: { day, position, date? } (position is 1-based within the day)
+router.post(
+  "/items/:itemId/move",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const version = expectedVersion(req);
+      if (!version) {
+        return res.status(428).json({ error: "If-Match header is required" });
+      }
+      const target = MoveItemSchema.parse(req.body);
+      const result = await moveItineraryItem(
+        req.tripId,
+        req.params.itemId,
+        target,
+        version,
+        contextFromRequest(req)
+      );
+      sendPatchResult(res, result);
+    } catch (e: any) {
+      sendItemError(res, e);
+    }
+  }
+);
+
+// DELETE /api/itinerary/items/:itemId
+router.delete(
+  "/items/:itemId",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const version = expectedVersion(req);
+      if (!version) {
+        return res.status(428).json({ error: "If-Match header is required" });
+      }
+      const result = await removeItineraryItem(
+        req.tripId,
+        req.params.itemId,
+        version,
+        contextFromRequest(req)
+      );
+      sendPatchResult(res, result);
+    } catch (e: any) {
+      sendItemError(res, e);
+    }
+  }
+);
+
+// POST /api/itinerary/optimize
+// Proposes the order of one day's stops with the shortest distance
+// (straight-line, from location coordinates). With apply: true the new
+// order is written to the sheet.
+router.post("/optimize", validateAccess, async (req: any, res) => {
   try {
-    const data = await getItineraryFromDb(req.targetOwnerId);
-    res.json(data);
+    const options = OptimizeDaySchema.parse(req.body);
+    if (options.apply && !can(req.tripRole, "edit")) {
+      return res
+        .status(403)
+        .json({ error: "Your role does not allow changing the itinerary" });
+    }
+    const result = await ItineraryPlanner.optimizeDay(
+      req.tripId,
+      options,
+      contextFromRequest(req)
+    );
+    res.json(result);
   } catch (e: any) {
     if (e instanceof z.ZodError) {
       res.status(400).json({ error: e.issues });
+    } else if (
+      e.message === "Day not found in itinerary" ||
+      e.message === "Location not found"
+    ) {
+      res.status(404).json({ error: e.message });
     } else {
       res.status(500).json({ error: e.message });
     }
   }
 });
 
-// POST /api/itinerary/update
-router.post("/update", validateAccess, async (req: any, res) => {
+// POST /api/itinerary/generate
+// Drafts an itinerary for the trip dates from the location pool (grouped
+// by city and distance, within the stop and meal limits). Returns the draft
+// for review; apply: true (owner and admins) replaces those dates in the sheet.
+router.post("/generate", validateAccess, async (req: any, res) => {
   try {
-    const { items } = UpdateItinerarySchema.parse(req.body);
+    const options = GenerateSchema.parse(req.body);
+    if (options.apply && !can(req.tripRole, "destroy")) {
+      return res.status(403).json({
+        error: "Your role does not allow applying a generated itinerary",
+      });
+    }
 
-    await updateItineraryInSheet(req.targetOwnerId, items);
-    res.json({ success: true });
+    const draft = await ItineraryPlanner.generateDraft(
+      req.tripId,
+      options,
+      contextFromRequest(req)
+    );
+    res.json(draft);
   } catch (e: any) {
     if (e instanceof z.ZodError) {
       res.status(400).json({ error: e.issues });
+    } else if (e.message?.startsWith("Location not found")) {
+      res.status(404).json({ error: e.message });
+    } else if (
+      e.message === "Trip dates are not set" ||
+      e.message?.startsWith("A draft covers") ||
+      e.message?.startsWith("Itinerary items")
+    ) {
+      res.status(400).json({ error: e.message });
     } else {
       res.status(500).json({ error: e.message });
     }
   }
 });
 
+// GET /api/itinerary/integrity?tripId=...
+// Dangling location references, locations planned twice and empty days
+// (built on read; writes keep the stored report up to date)
+router.get("/integrity", validateAccess, async (req: any, res) => {
+  try {
+    const report = await IntegrityService.buildReport(req.tripId);
+    res.json(report);
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// POST /api/itinerary/integrity/repair
+// Points dangling items at the location with the same name (or at the same
+// spot) and writes the itinerary back. Trashed locations are left alone.
+router.post(
+  "/integrity/repair",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const { dryRun } = RepairSchema.parse(req.body);
+      const { itinerary, matches, unresolved } =
+        await IntegrityService.findRepairs(req.tripId);
+
+      let applied = false;
+      if (!dryRun && matches.length > 0) {
+        const targets = new Map(matches.map((m) => [m.itemId, m.to]));
+        await updateItineraryInSheet(
+          req.tripId,
+          itinerary.map((item) => ({
+            ...item,
+            locationId: targets.get(item.id) || item.locationId,
+          })),
+          contextFromRequest(req)
+        );
+        applied = true;
+      }
+
+      // Applying already stored a fresh report
+      const report = await IntegrityService.buildReport(req.tripId);
+      res.json({ matches, unresolved, applied, report });
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        res.status(400).json({ error: e.issues });
+      } else {
+        res.status(500).json({ error: e.message });
+      }
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import { EnrichmentQueue } from "../services/enrichmentQueue.service";
+import { MailService } from "../services/mail.service";
+import { purgeExpiredTrash } from "../services/syncService";
+import { CONFIG } from "../config";
+
+const router = Router();
+
+// GET /api/jobs/status?tripId=...
+// Enrichment queue counts (queued / processing / done / skipped / failed) for a trip
+router.get("/status", requireAuth, validateAccess, async (req: any, res) => {
+  try {
+    const status = await EnrichmentQueue.getStatus(req.tripId);
+    res.json(status);
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// POST /api/jobs/retry
+// Re-queue all failed enrichment jobs of a trip
+router.post(
+  "/retry",
+  requireAuth,
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const requeued = await EnrichmentQueue.retryFailed(req.tripId);
+      res.json({ success: true, requeued });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+// GET /api/jobs/mail?tripId=...
+// Emails sent about a trip and their delivery state (owner and admins)
+router.get(
+  "/mail",
+  requireAuth,
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const mail = await MailService.list(req.tripId);
+      res.json({ mail });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+// GET|POST /api/jobs/tick
+// Cron entry point: retries failed emails, processes due jobs of all trips
+// within the time budget, then purges trashed locations past the retention
+// period.
+// Authenticated by CRON_SECRET instead of a user token.
+router.all("/tick", async (req, res) => {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  const token = Buffer.from(
+    (req.headers.authorization || "").replace("Bearer ", "")
+  );
+  const secret = Buffer.from(CONFIG.JOBS.CRON_SECRET);
+  if (
+    !CONFIG.JOBS.CRON_SECRET ||
+    token.length !== secret.length ||
+    !crypto.timingSafeEqual(token, secret)
+  ) {
+    res.status(401).json({ error: "Invalid cron secret" });
+    return;
+  }
+
+  try {
+    const started = Date.now();
+    const mail = await MailService.process({
+      timeBudgetMs: CONFIG.MAIL.TICK_BUDGET_MS,
+    });
+    const result = await EnrichmentQueue.process({
+      timeBudgetMs: Math.max(
+        0,
+        CONFIG.JOBS.TICK_BUDGET_MS - (Date.now() - started)
+      ),
+    });
+    const purged = await purgeExpiredTrash();
+    res.json({ success: true, ...result, purged, mail });
+  } catch (e: any) {
+    console.error("[Jobs] Tick failed", e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+export default router;
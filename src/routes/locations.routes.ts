@@ -1,56 +1,105 @@
 import { Router } from "express";
+import { z } from "zod";
 import {
   updateLocationInSheet,
   disconnectSheet,
   getLocationsFromDb,
   syncSheetToDb,
-  deleteLocationInSheet,
+  trashLocation,
+  restoreTrashedLocation,
+  purgeTrashedLocations,
+  addLocationsToSheet,
+  getColumnMapping,
+  setColumnAliases,
+  resolveSyncConflict,
 } from "../services/syncService";
 import { requireAuth } from "../middleware/auth.middleware";
-import { CollaboratorService } from "../services/collaboratorService";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
 import { GeocodingService } from "../services/geocoding.service";
-import { SheetsService } from "../services/sheets.service";
-import { supabaseAdmin as supabase } from "../services/supabase";
+import { LOCATION_COLUMNS } from "../services/columnMap.service";
+import { EnrichmentQueue } from "../services/enrichmentQueue.service";
+import { SyncConflictService } from "../services/syncConflict.service";
+import { TrashService } from "../services/trash.service";
+import { TripService } from "../services/trip.service";
+import { ExchangeRateService } from "../services/exchangeRate.service";
+import { StationService } from "../services/station.service";
+import {
+  ActivityService,
+  LOCATION_SUMMARY_FIELDS,
+  pickFields,
+} from "../services/activity.service";
+import { CONFIG } from "../config";
+import { contextFromRequest } from "../utils/mutationContext";
 
 const router = Router();
 
 router.use(requireAuth);
 
-// Helper to validate access
-const validateAccess = async (req: any, res: any, next: any) => {
-  try {
-    // ownerId can be in query (GET) or body (POST)
-    const targetOwnerId = req.query.ownerId || req.body.ownerId || req.user.id;
-    const user = req.user!;
-
-    const hasAccess = await CollaboratorService.hasAccess(
-      targetOwnerId,
-      user.email || "",
-      user.id
-    );
+// Validation Schemas
+const ColumnAliasesSchema = z.object({
+  aliases: z.partialRecord(
+    z.enum(LOCATION_COLUMNS),
+    z.array(z.string().min(1).max(100)).max(20)
+  ),
+});
 
-    if (!hasAccess) {
-      return res.status(403).json({
-        error:
-          "Access Denied: You do not have permission to view/edit this trip.",
-      });
-    }
+const ResolveConflictSchema = z.object({
+  strategy: z.enum(["sheet", "app", "merge"]),
+  fields: z
+    .partialRecord(
+      z.enum([
+        "name",
+        "city",
+        "type",
+        "priceJpy",
+        "description",
+        "googleMapsUrl",
+        "lat",
+        "lng",
+        "photoUrl",
+      ]),
+      z.enum(["sheet", "app"])
+    )
+    .optional(),
+});
 
-    // Attach targetOwnerId to req for convenience
-    req.targetOwnerId = targetOwnerId;
-    next();
-  } catch (e) {
-    console.error("Access Validation Error:", e);
-    return res
-      .status(500)
-      .json({ error: "Internal Server Error during access check" });
-  }
-};
+// Editable fields (the sheet's columns); anything else is ignored
+const UpdateLocationSchema = z.object({
+  locationId: z.string().min(1),
+  updates: z
+    .object({
+      name: z.string().max(200),
+      city: z.string().max(100),
+      type: z.string().max(100),
+      priceJpy: z.union([z.string(), z.number()]).transform(String),
+      description: z.string().max(2000),
+      googleMapsUrl: z.string().max(2000),
+      lat: z.coerce.number().min(-90).max(90),
+      lng: z.coerce.number().min(-180).max(180),
+      photoUrl: z.string().max(2000),
+    })
+    .partial()
+    .refine((updates) => Object.keys(updates).length > 0, {
+      message: "No fields to update",
+    }),
+});
+
+const StationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(10).optional(),
+});
 
 // GET / - Get cached locations
+// Prices are parsed and converted to THB and the trip's home currency
 router.get("/", validateAccess, async (req: any, res) => {
   try {
-    const locations = await getLocationsFromDb(req.targetOwnerId);
+    const locations = await ExchangeRateService.priceLocations(
+      req.tripId,
+      await getLocationsFromDb(req.tripId),
+      TripService.toSettings(req.trip).homeCurrency
+    );
     res.json({ locations });
   } catch (error: any) {
     console.error("Get Locations Error:", error);
@@ -61,78 +110,291 @@ router.get("/", validateAccess, async (req: any, res) => {
 });
 
 // POST /sync - Force Sync from Google Sheet
-router.post("/sync", validateAccess, async (req: any, res) => {
+// Missing data is queued for enrichment; a short slice of the queue is
+// processed right away so small lists are complete after one sync.
+router.post(
+  "/sync",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const { locations, changes, conflictCount } = await syncSheetToDb(
+        req.tripId,
+        contextFromRequest(req)
+      );
+      const { succeeded } = await EnrichmentQueue.process({
+        tripId: req.tripId,
+        timeBudgetMs: CONFIG.JOBS.SYNC_BUDGET_MS,
+      });
+      const { queued, processing } = await EnrichmentQueue.getStatus(
+        req.tripId
+      );
+
+      res.json({
+        success: true,
+        count: locations.length,
+        remaining: queued + processing,
+        updated: succeeded,
+        changes,
+        conflicts: conflictCount,
+        locations:
+          succeeded > 0 ? await getLocationsFromDb(req.tripId) : locations,
+      });
+    } catch (error: any) {
+      console.error("Sync Error:", error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.post(
+  "/update",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const { locationId, updates } = UpdateLocationSchema.parse(req.body);
+
+      const { pendingSync } = await updateLocationInSheet(
+        req.tripId,
+        locationId,
+        updates,
+        contextFromRequest(req)
+      );
+      res.json({ success: true, pendingSync });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.issues });
+      } else if (error.message === "Location not found") {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error("Update failed", error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+router.post(
+  "/disconnect",
+  validateAccess,
+  requirePermission("destroy"),
+  async (req: any, res) => {
+    try {
+      await disconnectSheet(req.tripId, contextFromRequest(req));
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Disconnect failed", error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Delete Location (moves it to the trash)
+router.post(
+  "/delete",
+  validateAccess,
+  requirePermission("destroy"),
+  async (req: any, res) => {
+    try {
+      const { locationId } = req.body;
+      if (!locationId) {
+        return res.status(400).json({ error: "Missing locationId" });
+      }
+      await trashLocation(req.tripId, locationId, contextFromRequest(req));
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.message === "Location not found") {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error("Delete failed", error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+// GET /:id/stations?limit=3 - Nearest railway/metro stations with walking times
+router.get("/:id/stations", validateAccess, async (req: any, res) => {
   try {
-    const { locations, remainingCount, updatedCount } = await syncSheetToDb(
-      req.targetOwnerId
-    );
+    const { limit } = StationsQuerySchema.parse(req.query);
+    const locations = await getLocationsFromDb(req.tripId);
+    const location = locations.find((loc) => loc.id === req.params.id);
+    if (!location) {
+      return res.status(404).json({ error: "Location not found" });
+    }
+    if (!location.lat || !location.lng) {
+      return res.status(409).json({ error: "Location has no coordinates yet" });
+    }
+
     res.json({
-      success: true,
-      count: locations.length,
-      remaining: remainingCount,
-      updated: updatedCount,
-      locations,
+      locationId: location.id,
+      stations: StationService.nearest(location, limit),
     });
-  } catch (error: any) {
-    console.error("Sync Error:", error);
-    res.status(500).json({ error: error.message });
+  } catch (e: any) {
+    if (e instanceof z.ZodError) {
+      res.status(400).json({ error: e.issues });
+    } else {
+      res.status(500).json({ error: e.message });
+    }
   }
 });
 
-router.post("/update", validateAccess, async (req: any, res) => {
+// GET /trash - Deleted locations that can still be restored
+router.get("/trash", validateAccess, async (req: any, res) => {
   try {
-    const { locationId, updates } = req.body;
-    if (!locationId || !updates) {
-      return res.status(400).json({ error: "Missing required fields" });
-    }
-
-    await updateLocationInSheet(req.targetOwnerId, locationId, updates);
-    res.json({ success: true });
+    const trash = await TrashService.list(req.tripId);
+    res.json({ trash });
   } catch (error: any) {
-    console.error("Update failed", error);
+    console.error("List trash failed", error);
     res.status(500).json({ error: error.message });
   }
 });
 
-router.post("/disconnect", validateAccess, async (req: any, res) => {
+// POST /trash/:locationId/restore - Back to its original row
+router.post(
+  "/trash/:locationId/restore",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const result = await restoreTrashedLocation(
+        req.tripId,
+        req.params.locationId,
+        contextFromRequest(req)
+      );
+      res.json(result);
+    } catch (error: any) {
+      if (error.message === "Trashed location not found") {
+        res.status(404).json({ error: error.message });
+      } else if (error.message === "Location already exists") {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error("Restore from trash failed", error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+// POST /trash/:locationId/purge - Delete permanently
+router.post(
+  "/trash/:locationId/purge",
+  validateAccess,
+  requirePermission("destroy"),
+  async (req: any, res) => {
+    try {
+      const { locationId } = req.params;
+      const entry = await TrashService.get(req.tripId, locationId);
+      await purgeTrashedLocations(req.tripId, [locationId]);
+      await ActivityService.record(req.tripId, contextFromRequest(req), {
+        type: "location.purge",
+        target: locationId,
+        summary: entry.data.name,
+        before: pickFields(entry.data, LOCATION_SUMMARY_FIELDS),
+      });
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.message === "Trashed location not found") {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error("Purge failed", error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+// GET /conflicts - Rows changed in both the sheet and the app
+router.get("/conflicts", validateAccess, async (req: any, res) => {
   try {
-    await disconnectSheet(req.targetOwnerId);
-    res.json({ success: true });
+    const conflicts = await SyncConflictService.listOpen(req.tripId);
+    res.json({ conflicts });
   } catch (error: any) {
-    console.error("Disconnect failed", error);
+    console.error("List conflicts failed", error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Delete Location
-router.post("/delete", validateAccess, async (req: any, res) => {
-  try {
-    const { locationId } = req.body;
-    if (!locationId) {
-      return res.status(400).json({ error: "Missing locationId" });
+// POST /conflicts/:id/resolve - Keep sheet, keep app, or merge fields
+router.post(
+  "/conflicts/:id/resolve",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const conflictId = parseInt(req.params.id);
+      if (isNaN(conflictId)) {
+        return res.status(400).json({ error: "Invalid conflict ID" });
+      }
+
+      const { strategy, fields } = ResolveConflictSchema.parse(req.body);
+      const result = await resolveSyncConflict(
+        req.tripId,
+        conflictId,
+        strategy,
+        fields,
+        contextFromRequest(req)
+      );
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.issues });
+      } else if (error.message === "Conflict not found") {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error("Resolve conflict failed", error);
+        res.status(500).json({ error: error.message });
+      }
     }
-    await deleteLocationInSheet(req.targetOwnerId, locationId);
-    res.json({ success: true });
+  }
+);
+
+// GET /columns - Detected header -> field mapping (plus configured aliases)
+router.get("/columns", validateAccess, async (req: any, res) => {
+  try {
+    const mapping = await getColumnMapping(req.tripId);
+    res.json(mapping);
   } catch (error: any) {
-    console.error("Delete failed", error);
+    console.error("Get column mapping failed", error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// PUT /columns - Set header aliases (owner and admins), used by every later sync
+router.put(
+  "/columns",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const { aliases } = ColumnAliasesSchema.parse(req.body);
+      const mapping = await setColumnAliases(req.tripId, aliases);
+      res.json({ success: true, ...mapping });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.issues });
+      } else {
+        console.error("Set column aliases failed", error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
 // New Endpoint: Preview Location Data
-router.post("/preview", async (req, res) => {
+// Searched in the trip's country (settings), so tripId is required
+router.post("/preview", validateAccess, async (req: any, res) => {
   try {
-    // No auth needed for preview if we just use our API key (but strict rate limit?)
-    // Better to require auth to prevent abuse, but for now open is easier for dev.
-    // Let's rely on global rate limiter.
     const { name, city, url } = req.body;
+    const { country } = TripService.toSettings(req.trip);
 
     let data = null;
 
     if (url) {
       data = await GeocodingService.fetchPlaceFromUrl(url);
     } else if (name && city) {
-      const query = `${name}, ${city}, Japan`;
+      const query = `${name}, ${city}, ${country}`;
       data = await GeocodingService.fetchPlaceData(query);
     } else {
       throw new Error("Either URL or Name+City required");
@@ -151,152 +413,128 @@ router.post("/preview", async (req, res) => {
 });
 
 // New Endpoint: Add Location to Sheet
-router.post("/add", validateAccess, async (req: any, res) => {
-  try {
-    // req.targetOwnerId covers permissions
-    // But we need the USER's auth client to write to THEIR sheet.
-    // Wait, `syncService` uses `SheetsService.getAuthClient(profile.refresh_token)`.
-    // We need to fetch the profile to get the token.
-
-    // Re-fetch profile to get refresh token
-    const profile = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("id", req.targetOwnerId)
-      .single();
-
-    if (!profile.data || !profile.data.google_refresh_token) {
-      throw new Error("User not connected to Google Sheets");
-    }
-
-    const { decrypt } = require("../utils/encryption");
-    const refreshToken = decrypt(profile.data.google_refresh_token);
-    const auth = SheetsService.getAuthClient(refreshToken);
-
-    const { name, city, previewData } = req.body;
-
-    // Construct Row: [Name, City, Type, Price, Desc, URL, Lat, Lng, PhotoRef]
-    // We assume standard columns order for simplicity.
-    // Ideally we should read header map first... but appending is usually safe if structure is simple.
-    // Let's try to match the map from `syncService` blindly or just append and hope.
-    // BETTER: Use `syncService.syncSheetToDb` logic? No, that reads.
-    // Let's assume standard order: Name, City, Type, Price, Best For, Google Maps, Lat, Lng, Photo Ref
-
-    const row = [
-      name,
-      city,
-      previewData?.type || "",
-      previewData?.priceLevel || "",
-      previewData?.summary || "",
-      previewData?.googleMapsUrl || "",
-      previewData?.lat || "",
-      previewData?.lng || "",
-      previewData?.photoRef || "",
-    ];
-
-    await SheetsService.appendRow(
-      auth,
-      profile.data.spreadsheet_id,
-      "Locations!A1",
-      [row]
-    );
-
-    // Trigger Sync immediately to update DB
-    // We can call syncSheetToDb directly
-    const { syncSheetToDb } = require("../services/syncService");
-    await syncSheetToDb(req.targetOwnerId);
+router.post(
+  "/add",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const { name, city, previewData } = req.body;
+      const { country } = TripService.toSettings(req.trip);
+
+      // Columns are resolved from the sheet header (see ColumnMapService),
+      // so reordered sheets still get each value in the right cell.
+      const [id] = await addLocationsToSheet(req.tripId, [
+        {
+          name,
+          city: city || country,
+          type: previewData?.type || "",
+          priceJpy: previewData?.priceLevel || "",
+          description: previewData?.summary || "",
+          googleMapsUrl: previewData?.googleMapsUrl || "",
+          lat: previewData?.lat || "",
+          lng: previewData?.lng || "",
+          photoRef: previewData?.photoRef || "",
+        },
+      ]);
+
+      // Trigger Sync immediately to update DB
+      const ctx = contextFromRequest(req);
+      await syncSheetToDb(req.tripId, ctx);
+      await ActivityService.record(req.tripId, ctx, {
+        type: "location.add",
+        target: id,
+        summary: name,
+        after: { name, city: city || country, type: previewData?.type || "" },
+      });
 
-    res.json({ success: true });
-  } catch (e: any) {
-    console.error("Add location failed", e);
-    res.status(500).json({ error: e.message });
+      res.json({ success: true, id });
+    } catch (e: any) {
+      console.error("Add location failed", e);
+      res.status(500).json({ error: e.message });
+    }
   }
-});
+);
 
 // Batch Add Locations
-router.post("/batch-add", validateAccess, async (req: any, res) => {
-  try {
-    const { urls } = req.body; // array of strings
-    if (!urls || !Array.isArray(urls) || urls.length === 0) {
-      return res.status(400).json({ error: "No URLs provided" });
-    }
-
-    if (urls.length > 20) {
-      return res.status(400).json({ error: "Max 20 links per batch" });
-    }
-
-    // Auth
-    const profile = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("id", req.targetOwnerId)
-      .single();
+router.post(
+  "/batch-add",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const { urls } = req.body; // array of strings
+      if (!urls || !Array.isArray(urls) || urls.length === 0) {
+        return res.status(400).json({ error: "No URLs provided" });
+      }
 
-    if (!profile.data || !profile.data.google_refresh_token) {
-      throw new Error("User not connected to Google Sheets");
-    }
+      if (urls.length > 20) {
+        return res.status(400).json({ error: "Max 20 links per batch" });
+      }
 
-    const { decrypt } = require("../utils/encryption");
-    const refreshToken = decrypt(profile.data.google_refresh_token);
-    const auth = SheetsService.getAuthClient(refreshToken);
-    const { syncSheetToDb } = require("../services/syncService");
-
-    const rowsToAdd: any[] = [];
-    const errors: any[] = [];
-
-    // Process sequentially to be safe (or parallel with limit?)
-    // Parallel 5 at a time is better for speed vs rate limit.
-    // For now, simple sequential to avoid complexity and Vercel limits?
-    // Vercel limit is 10s. 20 links * 500ms = 10s. Might timeout.
-    // Let's rely on internal GeocodingService.fetchPlaceFromUrl
-
-    // We will process them and ignore failures (just log them)
-    for (const url of urls) {
-      try {
-        if (!url || !url.trim()) continue;
-        const cleanUrl = url.trim();
-        const data = await GeocodingService.fetchPlaceFromUrl(cleanUrl);
-
-        if (data) {
-          const row = [
-            data.name,
-            data.city || "Japan",
-            data.type || "",
-            data.priceLevel || "",
-            data.summary || "",
-            data.googleMapsUrl || cleanUrl,
-            data.lat || "",
-            data.lng || "",
-            data.photoRef || "",
-          ];
-          rowsToAdd.push(row);
+      const rowsToAdd: any[] = [];
+      const errors: any[] = [];
+      const { country } = TripService.toSettings(req.trip);
+
+      // Process sequentially to be safe (or parallel with limit?)
+      // Parallel 5 at a time is better for speed vs rate limit.
+      // For now, simple sequential to avoid complexity and Vercel limits?
+      // Vercel limit is 10s. 20 links * 500ms = 10s. Might timeout.
+      // Let's rely on internal GeocodingService.fetchPlaceFromUrl
+
+      // We will process them and ignore failures (just log them)
+      for (const url of urls) {
+        try {
+          if (!url || !url.trim()) continue;
+          const cleanUrl = url.trim();
+          const data = await GeocodingService.fetchPlaceFromUrl(cleanUrl);
+
+          if (data) {
+            rowsToAdd.push({
+              name: data.name,
+              city: data.city || country,
+              type: data.type || "",
+              priceJpy: data.priceLevel || "",
+              description: data.summary || "",
+              googleMapsUrl: data.googleMapsUrl || cleanUrl,
+              lat: data.lat || "",
+              lng: data.lng || "",
+              photoRef: data.photoRef || "",
+            });
+          }
+        } catch (e: any) {
+          console.error(`Failed to fetch ${url}`, e.message);
+          errors.push({ url, error: e.message });
         }
-      } catch (e: any) {
-        console.error(`Failed to fetch ${url}`, e.message);
-        errors.push({ url, error: e.message });
       }
-    }
 
-    if (rowsToAdd.length > 0) {
-      await SheetsService.appendRow(
-        auth,
-        profile.data.spreadsheet_id,
-        "Locations!A1",
-        rowsToAdd // appendRow can take multiple rows if we pass array of arrays?
-        // Wait, appendRow signature:
-        // static async appendRow(auth, spreadsheetId, range, values: any[][])
-        // Yes it takes a 2D array.
-      );
+      if (rowsToAdd.length > 0) {
+        const ids = await addLocationsToSheet(req.tripId, rowsToAdd);
+
+        // Sync back to DB
+        const ctx = contextFromRequest(req);
+        await syncSheetToDb(req.tripId, ctx);
+        await ActivityService.record(req.tripId, ctx, {
+          type: "location.batch_add",
+          summary: `${ids.length} locations`,
+          after: {
+            added: ids.length,
+            failed: errors.length,
+            locations: rowsToAdd.map((row, i) => ({
+              id: ids[i],
+              name: row.name,
+              city: row.city,
+            })),
+          },
+        });
+      }
 
-      // Sync back to DB
-      await syncSheetToDb(req.targetOwnerId);
+      res.json({ success: true, added: rowsToAdd.length, errors });
+    } catch (e: any) {
+      console.error("Batch add failed", e);
+      res.status(500).json({ error: e.message });
     }
-
-    res.json({ success: true, added: rowsToAdd.length, errors });
-  } catch (e: any) {
-    console.error("Batch add failed", e);
-    res.status(500).json({ error: e.message });
   }
-});
+);
 
 export default router;
@@ -0,0 +1,265 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import { ACTIVE_PLAN, PlanService } from "../services/plan.service";
+import { getItineraryState } from "../services/syncService";
+import { TripService } from "../services/trip.service";
+import { contextFromRequest } from "../utils/mutationContext";
+import { checkSchedule } from "../utils/schedule";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation Schemas
+const PlanNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(60)
+  .refine((name) => name.toLowerCase() !== ACTIVE_PLAN, {
+    message: `"${ACTIVE_PLAN}" is reserved`,
+  });
+
+const PlanItemSchema = z
+  .object({
+    id: z.string().optional(), // Omitted for newly added items
+    day: z.string(),
+    locationId: z.string(),
+    order: z.number(),
+    note: z.string().optional(),
+    date: z.iso.date().nullable().optional(),
+    startTime: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM")
+      .nullable()
+      .optional(),
+    durationMinutes: z.number().int().min(1).max(1440).nullable().optional(),
+    fixedTime: z.boolean().optional(),
+  })
+  .refine((item) => !item.fixedTime || !!item.startTime, {
+    message: "fixedTime needs a startTime",
+  });
+
+const CreatePlanSchema = z.object({
+  name: PlanNameSchema,
+  from: z.string().min(1).optional(), // Plan ID or "active" (default)
+});
+
+const UpdatePlanSchema = z.object({
+  name: PlanNameSchema.optional(),
+  items: z.array(PlanItemSchema).optional(),
+});
+
+const CompareSchema = z.object({
+  a: z.string().min(1),
+  b: z.string().min(1).optional(), // Defaults to the active itinerary
+});
+
+const PromoteSchema = z.object({
+  keepCurrentAs: PlanNameSchema.optional(), // Save the replaced itinerary
+  version: z.string().optional(), // Or If-Match
+});
+
+const handleError = (res: any, e: any) => {
+  if (e instanceof z.ZodError) {
+    res.status(400).json({ error: e.issues });
+  } else if (e.message === "Plan not found") {
+    res.status(404).json({ error: e.message });
+  } else if (e.message === "A plan with this name already exists") {
+    res.status(409).json({ error: e.message });
+  } else {
+    res.status(500).json({ error: e.message });
+  }
+};
+
+// GET /api/plans?tripId=...
+router.get("/", validateAccess, async (req: any, res) => {
+  try {
+    const plans = await PlanService.list(req.tripId);
+    res.json({ plans });
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/plans/compare?tripId=...&a=<planId>&b=active
+// Locations that differ, and stops, distance and estimated cost of each
+router.get("/compare", validateAccess, async (req: any, res) => {
+  try {
+    const { a, b } = CompareSchema.parse(req.query);
+    const comparison = await PlanService.compare(
+      req.tripId,
+      a,
+      b || ACTIVE_PLAN
+    );
+    res.json(comparison);
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/plans/:planId?tripId=...
+router.get("/:planId", validateAccess, async (req: any, res) => {
+  try {
+    const plan = await PlanService.get(req.tripId, req.params.planId);
+    res.json(plan);
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// POST /api/plans
+// Creates a plan as a copy of the itinerary, or of another plan (from)
+router.post(
+  "/",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const input = CreatePlanSchema.parse(req.body);
+      const plan = await PlanService.create(
+        req.tripId,
+        input,
+        contextFromRequest(req)
+      );
+      res.status(201).json(plan);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// POST /api/plans/:planId/clone
+router.post(
+  "/:planId/clone",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const { name } = CreatePlanSchema.pick({ name: true }).parse(req.body);
+      const plan = await PlanService.create(
+        req.tripId,
+        { name, from: req.params.planId },
+        contextFromRequest(req)
+      );
+      res.status(201).json(plan);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// PATCH /api/plans/:planId
+// Rename and/or replace the items (same rules as /api/itinerary/update)
+router.patch(
+  "/:planId",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const input = UpdatePlanSchema.parse(req.body);
+
+      if (input.items) {
+        const { startDate, endDate } = TripService.toSettings(req.trip);
+        const problem = checkSchedule(input.items, startDate, endDate);
+        if (problem) return res.status(400).json(problem);
+      }
+
+      const plan = await PlanService.update(
+        req.tripId,
+        req.params.planId,
+        input,
+        contextFromRequest(req)
+      );
+      res.json(plan);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// POST /api/plans/:planId/sync
+// Takes the plan's items from its sheet tab
+router.post(
+  "/:planId/sync",
+  validateAccess,
+  requirePermission("edit"),
+  async (req: any, res) => {
+    try {
+      const plan = await PlanService.syncFromSheet(
+        req.tripId,
+        req.params.planId
+      );
+      res.json(plan);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// POST /api/plans/:planId/promote
+// Makes the plan the active itinerary (owner and admins). If-Match (or version)
+// is optional; a stale one is refused with 409.
+router.post(
+  "/:planId/promote",
+  validateAccess,
+  requirePermission("destroy"),
+  async (req: any, res) => {
+    try {
+      const { keepCurrentAs, version } = PromoteSchema.parse(req.body);
+      const header = req.get("If-Match");
+      const expected =
+        header && header !== "*"
+          ? header.replace(/^W\//, "").replace(/"/g, "").trim()
+          : version;
+
+      const plan = await PlanService.get(req.tripId, req.params.planId);
+      const { startDate, endDate } = TripService.toSettings(req.trip);
+      const problem = checkSchedule(plan.items, startDate, endDate);
+      if (problem) return res.status(400).json(problem);
+
+      const result = await PlanService.promote(
+        req.tripId,
+        plan,
+        { keepCurrentAs },
+        contextFromRequest(req),
+        expected
+      );
+      res.set("ETag", `"${result.etag}"`);
+      res.json(result);
+    } catch (e: any) {
+      if (e.message === "Itinerary changed") {
+        const { items, etag } = await getItineraryState(req.tripId);
+        res.set("ETag", `"${etag}"`);
+        return res.status(409).json({ error: e.message, items, etag });
+      }
+      handleError(res, e);
+    }
+  }
+);
+
+// DELETE /api/plans/:planId?tripId=...
+router.delete(
+  "/:planId",
+  validateAccess,
+  requirePermission("destroy"),
+  async (req: any, res) => {
+    try {
+      await PlanService.remove(
+        req.tripId,
+        req.params.planId,
+        contextFromRequest(req)
+      );
+      res.json({ success: true });
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+export default router;
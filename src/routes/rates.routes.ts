@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import { ExchangeRateService } from "../services/exchangeRate.service";
+import { TripService } from "../services/trip.service";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation Schemas
+const CurrencySchema = z.string().regex(/^[A-Z]{3}$/, "Use an ISO 4217 code");
+
+const SetRatesSchema = z.object({
+  // Units of each currency per 1 JPY, e.g. { "THB": 0.22 }
+  rates: z.record(CurrencySchema, z.number().positive()),
+});
+
+// GET /api/rates?tripId=...
+// Rates used for price conversion, with their source and timestamp
+router.get("/", validateAccess, async (req: any, res) => {
+  try {
+    const rates = await ExchangeRateService.getRates(req.tripId);
+    res.json({
+      homeCurrency: TripService.toSettings(req.trip).homeCurrency,
+      rates: Object.values(rates).sort((a, b) =>
+        a.currency.localeCompare(b.currency)
+      ),
+    });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// PUT /api/rates - Set manual rates for a trip (owner and admins)
+router.put(
+  "/",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const { rates } = SetRatesSchema.parse(req.body);
+      await ExchangeRateService.setRates(req.tripId, rates);
+      res.json({ success: true });
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        res.status(400).json({ error: e.issues });
+      } else {
+        res.status(500).json({ error: e.message });
+      }
+    }
+  }
+);
+
+// DELETE /api/rates/:currency?tripId=... - Back to the file/bundled rate
+router.delete(
+  "/:currency",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const currency = CurrencySchema.parse(req.params.currency);
+      await ExchangeRateService.clearRate(req.tripId, currency);
+      res.json({ success: true });
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        res.status(400).json({ error: e.issues });
+      } else {
+        res.status(500).json({ error: e.message });
+      }
+    }
+  }
+);
+
+export default router;
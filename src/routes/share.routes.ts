@@ -1,46 +1,77 @@
 import { Router } from "express";
 import { z } from "zod";
 import { ShareService } from "../services/shareService";
+import { NotificationService } from "../services/notification.service";
+import { ActivityService } from "../services/activity.service";
+import { contextFromRequest } from "../utils/mutationContext";
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
 
 const router = Router();
 
-const EnableShareSchema = z.object({
-  ownerId: z.string().min(1),
-});
-
-const DisableShareSchema = z.object({
-  ownerId: z.string().min(1),
-});
-
 const GetSharedTripSchema = z.object({
   slug: z.string().min(1),
 });
 
-// POST /api/share/enable
-router.post("/enable", async (req, res) => {
-  try {
-    const { ownerId } = EnableShareSchema.parse(req.body);
-    const slug = await ShareService.enableSharing(ownerId);
-    res.json({ success: true, slug });
-  } catch (e: any) {
-    if (e instanceof z.ZodError) {
-      res.status(400).json({ error: e.issues });
-    } else {
+// POST /api/share/enable - Publish a trip (owner and admins)
+router.post(
+  "/enable",
+  requireAuth,
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const wasShared = !!req.trip.public_slug;
+      const slug = await ShareService.enableSharing(req.tripId);
+      // Enabling an already public trip changes nothing
+      if (!wasShared) {
+        await ActivityService.record(req.tripId, contextFromRequest(req), {
+          type: "share.enable",
+          target: slug,
+          summary: req.trip.name,
+          before: { slug: null },
+          after: { slug },
+        });
+        await NotificationService.shareLinkCreated(
+          req.trip,
+          slug,
+          req.user.email || null
+        );
+      }
+      res.json({ success: true, slug });
+    } catch (e: any) {
       res.status(500).json({ error: e.message });
     }
   }
-});
+);
 
-// POST /api/share/disable
-router.post("/disable", async (req, res) => {
-  try {
-    const { ownerId } = DisableShareSchema.parse(req.body);
-    await ShareService.disableSharing(ownerId);
-    res.json({ success: true });
-  } catch (e: any) {
-    res.status(500).json({ error: e.message });
+// POST /api/share/disable - Unpublish it (owner and admins)
+router.post(
+  "/disable",
+  requireAuth,
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      await ShareService.disableSharing(req.tripId);
+      if (req.trip.public_slug) {
+        await ActivityService.record(req.tripId, contextFromRequest(req), {
+          type: "share.disable",
+          target: req.trip.public_slug,
+          summary: req.trip.name,
+          before: { slug: req.trip.public_slug },
+          after: { slug: null },
+        });
+      }
+      res.json({ success: true });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
   }
-});
+);
 
 // GET /api/share/:slug
 router.get("/:slug", async (req, res) => {
@@ -7,11 +7,11 @@ const router = Router();
 // POST /api/locations/sync - Force Sync from Google Sheet
 router.post("/sync", requireAuth, async (req, res) => {
   try {
-    const { locations, remainingCount } = await syncSheetToDb(req.user!.id);
+    const { locations, queuedCount } = await syncSheetToDb(req.user!.id);
     res.json({
       success: true,
       count: locations.length,
-      remaining: remainingCount,
+      remaining: queuedCount,
       locations,
     });
   } catch (error: any) {
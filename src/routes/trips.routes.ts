@@ -0,0 +1,183 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  requirePermission,
+  validateAccess,
+} from "../middleware/access.middleware";
+import { TripService } from "../services/trip.service";
+import { CollaboratorService } from "../services/collaboratorService";
+import { ActivityService, pickFields } from "../services/activity.service";
+import { permissionsOf } from "../utils/permissions";
+import { contextFromRequest } from "../utils/mutationContext";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation Schemas
+const isTimeZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const TripSettingsSchema = z.object({
+  startDate: z.iso.date().nullable().optional(),
+  endDate: z.iso.date().nullable().optional(),
+  timezone: z
+    .string()
+    .refine(isTimeZone, { message: "Unknown IANA timezone" })
+    .optional(),
+  homeCurrency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, "Use an ISO 4217 code, e.g. THB")
+    .optional(),
+  language: z.enum(["en", "ja", "th"]).optional(),
+  country: z.string().trim().min(1).max(60).optional(),
+});
+
+const datesInOrder = (trip: {
+  startDate?: string | null;
+  endDate?: string | null;
+}) => !trip.startDate || !trip.endDate || trip.startDate <= trip.endDate;
+
+const CreateTripSchema = TripSettingsSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  spreadsheetId: z.string().min(1).optional(), // Link an existing sheet
+}).refine(datesInOrder, { message: "endDate must not be before startDate" });
+
+const UpdateTripSchema = TripSettingsSchema.extend({
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+const handleError = (res: any, e: any) => {
+  if (e instanceof z.ZodError) {
+    res.status(400).json({ error: e.issues });
+  } else {
+    res.status(500).json({ error: e.message });
+  }
+};
+
+// GET /api/trips - My trips plus trips shared with me
+router.get("/", async (req, res) => {
+  try {
+    const [trips, shared] = await Promise.all([
+      TripService.listOwnedTrips(req.user!.id),
+      req.user!.email
+        ? CollaboratorService.getSharedTrips(req.user!.email)
+        : Promise.resolve([]),
+    ]);
+    res.json({ trips, shared });
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// POST /api/trips - Create a trip (with a new spreadsheet unless one is given)
+router.post("/", async (req, res) => {
+  try {
+    const input = CreateTripSchema.parse(req.body);
+    const trip = await TripService.createTrip(req.user!.id, input);
+    res.status(201).json(trip);
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+// GET /api/trips/:tripId
+// With my role in it and what that role allows
+router.get("/:tripId", validateAccess, async (req: any, res) => {
+  res.json({
+    ...req.trip,
+    role: req.tripRole,
+    permissions: permissionsOf(req.tripRole),
+  });
+});
+
+// Update a trip after checking the dates still make sense together
+const updateTrip = async (
+  req: any,
+  res: any,
+  input: z.infer<typeof UpdateTripSchema>
+) => {
+  const current = TripService.toSettings(req.trip);
+  if (!datesInOrder({ ...current, ...input })) {
+    res.status(400).json({ error: "endDate must not be before startDate" });
+    return null;
+  }
+
+  const trip = await TripService.updateTrip(req.tripId, input);
+  const fields = Object.keys(input);
+  await ActivityService.record(req.tripId, contextFromRequest(req), {
+    type: "trip.settings",
+    target: req.tripId,
+    summary: trip.name,
+    before: pickFields({ ...current, name: req.trip.name }, fields),
+    after: pickFields(
+      { ...TripService.toSettings(trip), name: trip.name },
+      fields
+    ),
+  });
+  return trip;
+};
+
+// PATCH /api/trips/:tripId - Rename or change settings (owner and admins)
+router.patch(
+  "/:tripId",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const trip = await updateTrip(req, res, UpdateTripSchema.parse(req.body));
+      if (trip) res.json(trip);
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// GET /api/trips/:tripId/settings
+// Dates, timezone, home currency, language and country (defaults filled in)
+router.get("/:tripId/settings", validateAccess, async (req: any, res) => {
+  res.json(TripService.toSettings(req.trip));
+});
+
+// PUT /api/trips/:tripId/settings - Change settings (owner and admins)
+// Only the fields sent are changed.
+router.put(
+  "/:tripId/settings",
+  validateAccess,
+  requirePermission("manage"),
+  async (req: any, res) => {
+    try {
+      const input = TripSettingsSchema.parse(req.body);
+      const trip = await updateTrip(req, res, input);
+      if (trip) res.json(TripService.toSettings(trip));
+    } catch (e: any) {
+      handleError(res, e);
+    }
+  }
+);
+
+// DELETE /api/trips/:tripId - Delete a trip and its data (owner only)
+// The Google Sheet itself is left in the owner's Drive.
+router.delete("/:tripId", validateAccess, async (req: any, res) => {
+  try {
+    if (req.trip.owner_id !== req.user.id) {
+      return res
+        .status(403)
+        .json({ error: "Only trip owner can delete the trip" });
+    }
+
+    await TripService.deleteTrip(req.trip);
+    res.json({ success: true });
+  } catch (e: any) {
+    handleError(res, e);
+  }
+});
+
+export default router;
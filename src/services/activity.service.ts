@@ -0,0 +1,158 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { MutationContext } from "../types";
+import { canonicalJson } from "../utils/canonicalJson";
+
+export const ACTIVITY_TYPES = [
+  "location.add",
+  "location.batch_add",
+  "location.update",
+  "location.delete",
+  "location.restore",
+  "location.purge",
+  "conflict.resolve",
+  "sheet.sync",
+  "sheet.disconnect",
+  "itinerary.sync",
+  "itinerary.update",
+  "trip.restore",
+  "trip.settings",
+  "expense.add",
+  "expense.update",
+  "expense.delete",
+  "plan.create",
+  "plan.clone",
+  "plan.update",
+  "plan.promote",
+  "plan.delete",
+  "share.enable",
+  "share.disable",
+  "collaborator.invite",
+  "collaborator.uninvite",
+  "collaborator.join",
+  "collaborator.role",
+  "collaborator.remove",
+] as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+// What happened, for one entry of the log
+export interface ActivityInput {
+  type: ActivityType;
+  target?: string | null; // Location ID, email, ... the change is about
+  summary: string; // Human readable, e.g. the location name
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export interface ActivityEntry {
+  id: number;
+  trip_id: string;
+  type: ActivityType;
+  target: string | null;
+  summary: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  source: string;
+  created_at: string;
+}
+
+export interface ActivityFilter {
+  limit?: number;
+  before?: number; // Last ID of the previous page
+  actor?: string; // User ID, email, or "system"
+  type?: string; // A type, or its group ("location", "collaborator", ...)
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Location fields kept in before/after summaries
+export const LOCATION_SUMMARY_FIELDS = ["name", "city", "type"];
+
+// Counts of an ID-keyed list change, for before/after summaries
+export function countChanges<T extends { id: string }>(from: T[], to: T[]) {
+  const fromById = new Map(from.map((item) => [item.id, item]));
+  const toIds = new Set(to.map((item) => item.id));
+  let added = 0;
+  let updated = 0;
+  for (const item of to) {
+    const prev = fromById.get(item.id);
+    if (!prev) added++;
+    else if (canonicalJson(prev) !== canonicalJson(item)) updated++;
+  }
+  const removed = from.filter((item) => !toIds.has(item.id)).length;
+  return { added, updated, removed };
+}
+
+// Only the given fields of an object (e.g. the ones an update touched)
+export function pickFields(obj: Record<string, any>, keys: string[]) {
+  return Object.fromEntries(keys.map((key) => [key, obj[key] ?? null]));
+}
+
+export class ActivityService {
+  /**
+   * Append an entry to the trip's activity log. Entries are never changed
+   * afterwards. Failures are logged: the write being recorded already
+   * happened.
+   */
+  static async record(
+    tripId: string,
+    ctx: MutationContext,
+    entry: ActivityInput
+  ) {
+    const { error } = await supabase.from("activity_log").insert({
+      trip_id: tripId,
+      type: entry.type,
+      target: entry.target ?? null,
+      summary: entry.summary,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      actor_id: ctx.actorId,
+      actor_email: ctx.actorEmail?.toLowerCase() ?? null,
+      source: ctx.source,
+    });
+    if (error) {
+      console.error(`[Activity] Failed to record ${entry.type}:`, error);
+    }
+  }
+
+  /**
+   * Activity of a trip, newest first.
+   * Pass the last ID of a page as `before` to get the next page.
+   */
+  static async list(
+    tripId: string,
+    filter: ActivityFilter = {}
+  ): Promise<ActivityEntry[]> {
+    let query = supabase
+      .from("activity_log")
+      .select("*")
+      .eq("trip_id", tripId)
+      .order("id", { ascending: false })
+      .limit(filter.limit || 50);
+    if (filter.before) query = query.lt("id", filter.before);
+
+    if (filter.actor === "system") {
+      query = query.is("actor_id", null);
+    } else if (filter.actor && UUID_PATTERN.test(filter.actor)) {
+      query = query.eq("actor_id", filter.actor);
+    } else if (filter.actor) {
+      query = query.eq("actor_email", filter.actor.trim().toLowerCase());
+    }
+
+    if (filter.type?.includes(".")) {
+      query = query.eq("type", filter.type);
+    } else if (filter.type) {
+      query = query.like("type", `${filter.type}.%`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error listing activity:", error);
+      throw new Error("Failed to list activity");
+    }
+    return data || [];
+  }
+}
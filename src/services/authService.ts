@@ -3,6 +3,7 @@ import { google } from "googleapis";
 import { supabaseAdmin } from "./supabase";
 import { encrypt } from "../utils/encryption";
 import { SheetsService } from "./sheets.service";
+import { TripService } from "./trip.service";
 
 const SCOPES = [
   "https://www.googleapis.com/auth/spreadsheets",
@@ -66,47 +67,53 @@ export async function linkGoogleAccount(userId: string, code: string) {
   // 2. Encrypt Token
   const encryptedToken = refreshToken ? encrypt(refreshToken) : undefined;
 
-  // 3. Create Spreadsheet (if one doesn't exist linked to this user?)
-  // Check if user already has a sheet
-  let spreadsheetId: string | undefined;
+  // 3. Save the token on the profile (shared by all of the user's trips)
+  if (encryptedToken) {
+    const { error } = await supabaseAdmin
+      .from("profiles")
+      .update({
+        google_refresh_token: encryptedToken,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", userId);
+
+    if (error) throw error;
+  }
 
-  const { data: profile } = await supabaseAdmin
-    .from("profiles")
-    .select("spreadsheet_id")
-    .eq("id", userId)
-    .single();
+  // 4. Make sure the user has a trip with a spreadsheet
+  // The first trip gets a new spreadsheet; further trips are created
+  // through /api/trips.
+  const [trip] = await TripService.listOwnedTrips(userId);
+  if (!trip) {
+    const created = await TripService.createTrip(userId, { name: "My Trip" });
+    return {
+      success: true,
+      tripId: created.id,
+      spreadsheetId: created.spreadsheet_id,
+    };
+  }
 
-  if (profile?.spreadsheet_id) {
-    spreadsheetId = profile.spreadsheet_id;
-  } else {
+  let spreadsheetId = trip.spreadsheet_id;
+  if (!spreadsheetId) {
     // initialize auth for Sheets API
     oAuth2Client.setCredentials(tokens);
     const sheet = await SheetsService.createSpreadsheet(
       oAuth2Client,
       "JP Trip Planner Data"
     );
-    spreadsheetId = sheet.spreadsheetId || undefined;
+    spreadsheetId = sheet.spreadsheetId || null;
+    if (!spreadsheetId) throw new Error("Failed to create or find spreadsheet");
+
+    const { error } = await supabaseAdmin
+      .from("trips")
+      .update({
+        spreadsheet_id: spreadsheetId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", trip.id);
+
+    if (error) throw error;
   }
 
-  if (!spreadsheetId) throw new Error("Failed to create or find spreadsheet");
-
-  // 4. Update Profile
-  const updateData: any = {
-    spreadsheet_id: spreadsheetId,
-    updated_at: new Date().toISOString(),
-  };
-  if (encryptedToken) {
-    updateData.google_refresh_token = encryptedToken;
-  }
-
-  // We upsert profiles. Note: 'profiles' usually created by Trigger on Auth.
-  // But we make sure.
-  const { error } = await supabaseAdmin
-    .from("profiles")
-    .update(updateData)
-    .eq("id", userId);
-
-  if (error) throw error;
-
-  return { success: true, spreadsheetId };
+  return { success: true, tripId: trip.id, spreadsheetId };
 }
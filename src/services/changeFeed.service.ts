@@ -0,0 +1,180 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { ItineraryItem, Location } from "../types";
+import { canonicalJson } from "../utils/canonicalJson";
+
+export type ChangeEntity = "location" | "itinerary" | "trip";
+export type ChangeOp = "added" | "updated" | "removed" | "synced";
+
+// Max rows read per feed request; clients keep polling while hasMore is set
+const PAGE_SIZE = 500;
+
+interface ChangeRow {
+  id: number;
+  entity: ChangeEntity;
+  entity_id: string | null;
+  op: ChangeOp;
+  data: any;
+}
+
+// Compare two snapshots of ID-keyed records. Key order is ignored: one side
+// is usually read back from jsonb.
+function diffById<T extends { id: string }>(before: T[], after: T[]) {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+
+  const changes: { id: string; op: ChangeOp; data: T | null }[] = [];
+  for (const item of after) {
+    const prev = beforeById.get(item.id);
+    if (!prev) {
+      changes.push({ id: item.id, op: "added", data: item });
+    } else if (canonicalJson(prev) !== canonicalJson(item)) {
+      changes.push({ id: item.id, op: "updated", data: item });
+    }
+  }
+  for (const item of before) {
+    if (!afterIds.has(item.id)) {
+      changes.push({ id: item.id, op: "removed", data: null });
+    }
+  }
+  return changes;
+}
+
+export class ChangeFeedService {
+  /**
+   * Record the difference between two location snapshots of a trip.
+   */
+  static async recordLocationChanges(
+    tripId: string,
+    before: Location[],
+    after: Location[]
+  ) {
+    await this.insert(tripId, "location", diffById(before, after));
+  }
+
+  /**
+   * Record the difference between two itinerary snapshots of a trip.
+   */
+  static async recordItineraryChanges(
+    tripId: string,
+    before: ItineraryItem[],
+    after: ItineraryItem[]
+  ) {
+    await this.insert(tripId, "itinerary", diffById(before, after));
+  }
+
+  /**
+   * Advance the cursor for a sync run, even if it changed nothing.
+   */
+  static async recordSync(tripId: string) {
+    await this.insert(tripId, "trip", [
+      { id: tripId, op: "synced", data: null },
+    ]);
+  }
+
+  /**
+   * Latest cursor of a trip (0 if nothing was recorded yet).
+   */
+  static async getCursor(tripId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from("trip_changes")
+      .select("id")
+      .eq("trip_id", tripId)
+      .order("id", { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error("Failed to read change cursor");
+    return data?.[0]?.id || 0;
+  }
+
+  /**
+   * Changes after `since`, collapsed to the net effect per record:
+   * added+updated -> added, updated+removed -> removed, added+removed -> gone.
+   * Removed records are returned as tombstones (IDs only).
+   */
+  static async getChangesSince(tripId: string, since: number) {
+    const { data, error } = await supabase
+      .from("trip_changes")
+      .select("id, entity, entity_id, op, data")
+      .eq("trip_id", tripId)
+      .gt("id", since)
+      .order("id", { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (error) {
+      console.error("Error reading change feed:", error);
+      throw new Error("Failed to read changes");
+    }
+
+    const rows = (data || []) as ChangeRow[];
+    const net = new Map<
+      string,
+      { entity: ChangeEntity; op: ChangeOp; data: any }
+    >();
+
+    for (const row of rows) {
+      if (row.entity === "trip" || !row.entity_id) continue;
+      const key = `${row.entity}:${row.entity_id}`;
+      const prev = net.get(key);
+
+      let op = row.op;
+      if (prev?.op === "added" && op === "updated") op = "added";
+      if (prev?.op === "added" && op === "removed") {
+        net.delete(key);
+        continue;
+      }
+      if (prev?.op === "removed" && op === "added") op = "updated";
+      net.set(key, { entity: row.entity, op, data: row.data });
+    }
+
+    const feed = {
+      locations: {
+        added: [] as any[],
+        updated: [] as any[],
+        removed: [] as string[],
+      },
+      itinerary: {
+        added: [] as any[],
+        updated: [] as any[],
+        removed: [] as string[],
+      },
+    };
+    for (const [key, change] of net) {
+      const target =
+        change.entity === "location" ? feed.locations : feed.itinerary;
+      const id = key.slice(change.entity.length + 1);
+      if (change.op === "removed") target.removed.push(id);
+      else if (change.op === "added") target.added.push(change.data);
+      else target.updated.push(change.data);
+    }
+
+    return {
+      cursor: rows.length > 0 ? rows[rows.length - 1].id : since,
+      hasMore: rows.length === PAGE_SIZE,
+      ...feed,
+    };
+  }
+
+  // Append change rows. Failures are logged rather than thrown: the write
+  // they describe has already happened.
+  private static async insert(
+    tripId: string,
+    entity: ChangeEntity,
+    changes: { id: string; op: ChangeOp; data: any }[]
+  ) {
+    if (changes.length === 0) return;
+
+    const { error } = await supabase.from("trip_changes").insert(
+      changes.map((c) => ({
+        trip_id: tripId,
+        entity,
+        entity_id: c.id,
+        op: c.op,
+        data: c.data,
+      }))
+    );
+
+    if (error) {
+      console.error(`[ChangeFeed] Failed to record ${entity} changes:`, error);
+    }
+  }
+}
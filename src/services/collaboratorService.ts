@@ -1,5 +1,7 @@
 import { createClient } from "@supabase/supabase-js";
 import { CONFIG } from "../config";
+import { CollaboratorRole, Trip, TripRole } from "../types";
+import { DEFAULT_COLLABORATOR_ROLE } from "../utils/permissions";
 
 const supabase = createClient(
   CONFIG.SUPABASE.URL,
@@ -13,13 +15,13 @@ console.log(
 
 export class CollaboratorService {
   /**
-   * List all collaborators for a specific trip owner.
+   * List all collaborators of a trip.
    */
-  static async listCollaborators(ownerId: string) {
+  static async listCollaborators(tripId: string) {
     const { data, error } = await supabase
       .from("trip_collaborators")
-      .select("email, created_at")
-      .eq("trip_owner_id", ownerId);
+      .select("email, role, created_at")
+      .eq("trip_id", tripId);
 
     if (error) {
       console.error("Error listing collaborators:", error);
@@ -30,45 +32,89 @@ export class CollaboratorService {
   }
 
   /**
-   * Invite a collaborator (email) to the owner's trip.
+   * Get one collaborator of a trip, or null if the email isn't invited.
    */
-  static async inviteCollaborator(ownerId: string, email: string) {
+  static async getCollaborator(tripId: string, email: string) {
+    const { data, error } = await supabase
+      .from("trip_collaborators")
+      .select("email, role, created_at")
+      .eq("trip_id", tripId)
+      .eq("email", email.toLowerCase().trim())
+      .maybeSingle();
+
+    if (error) throw new Error("Failed to fetch collaborator");
+    return data as {
+      email: string;
+      role: CollaboratorRole;
+      created_at: string;
+    } | null;
+  }
+
+  /**
+   * Add a collaborator (email) to a trip with a role, once they accepted an
+   * invitation (see InvitationService). Someone already added keeps their
+   * current role.
+   */
+  static async addCollaborator(
+    tripId: string,
+    email: string,
+    role: CollaboratorRole = DEFAULT_COLLABORATOR_ROLE
+  ) {
     const normalizedEmail = email.toLowerCase().trim();
     // 1. Check if already exists
     const { data: existing } = await supabase
       .from("trip_collaborators")
       .select("id")
-      .eq("trip_owner_id", ownerId)
+      .eq("trip_id", tripId)
       .eq("email", normalizedEmail)
       .single();
 
     if (existing) {
-      return; // Already invited
+      return; // Already added
     }
 
     // 2. Insert
     const { error } = await supabase.from("trip_collaborators").insert({
-      trip_owner_id: ownerId,
+      trip_id: tripId,
       email: normalizedEmail,
+      role,
     });
 
     if (error) {
-      console.error("Error inviting collaborator:", error);
-      throw new Error("Failed to invite collaborator");
+      console.error("Error adding collaborator:", error);
+      throw new Error("Failed to add collaborator");
     }
   }
 
+  /**
+   * Change the role of an invited collaborator.
+   */
+  static async setRole(tripId: string, email: string, role: CollaboratorRole) {
+    const { data, error } = await supabase
+      .from("trip_collaborators")
+      .update({ role })
+      .eq("trip_id", tripId)
+      .eq("email", email.toLowerCase().trim())
+      .select("email, role, created_at");
+
+    if (error) {
+      console.error("Error changing collaborator role:", error);
+      throw new Error("Failed to change collaborator role");
+    }
+    if (!data || data.length === 0) throw new Error("Collaborator not found");
+    return data[0];
+  }
+
   /**
    * Remove a collaborator.
    */
-  static async removeCollaborator(ownerId: string, email: string) {
+  static async removeCollaborator(tripId: string, email: string) {
     const normalizedEmail = email.toLowerCase().trim();
-    // Use ilike to match case-insensitively, ensuring we delete any mixed-case legacy records
     const { error } = await supabase
       .from("trip_collaborators")
       .delete()
-      .eq("trip_owner_id", ownerId)
-      .ilike("email", normalizedEmail);
+      .eq("trip_id", tripId)
+      .eq("email", normalizedEmail);
 
     if (error) {
       console.error("Error removing collaborator:", error);
@@ -78,14 +124,14 @@ export class CollaboratorService {
 
   /**
    * Get list of trips that this email has access to (shared with them).
-   * Returns a list of trip owners (profiles).
+   * Each trip comes with its owner's email.
    */
   static async getSharedTrips(email: string) {
     const normalizedEmail = email.toLowerCase().trim();
-    // 1. Get owner_ids from collaborators table
+    // 1. Get trip IDs from collaborators table
     const { data: collaborations, error: collabError } = await supabase
       .from("trip_collaborators")
-      .select("trip_owner_id")
+      .select("trip_id, role")
       .eq("email", normalizedEmail);
 
     if (collabError) {
@@ -96,65 +142,89 @@ export class CollaboratorService {
       return [];
     }
 
-    const ownerIds = collaborations.map((c) => c.trip_owner_id);
+    const tripIds = collaborations.map((c) => c.trip_id);
+    const roles = new Map(collaborations.map((c) => [c.trip_id, c.role]));
 
-    // 2. Fetch profile details for these owners
-    const { data: profiles, error: profileError } = await supabase
-      .from("profiles")
-      .select("id, email")
-      .in("id", ownerIds);
+    // 2. Fetch trip and owner details
+    const { data: trips, error: tripError } = await supabase
+      .from("trips")
+      .select("id, owner_id, name, start_date, end_date, created_at")
+      .in("id", tripIds);
 
-    if (profileError) {
-      console.error(
-        "[CollaboratorService] Error querying profiles:",
-        profileError
-      );
+    if (tripError) {
+      console.error("[CollaboratorService] Error querying trips:", tripError);
       throw new Error(
-        "Failed to fetch shared trip details: " + profileError.message
+        "Failed to fetch shared trip details: " + tripError.message
       );
     }
 
-    return profiles || [];
+    const { data: owners } = await supabase
+      .from("profiles")
+      .select("id, email")
+      .in(
+        "id",
+        (trips || []).map((t) => t.owner_id)
+      );
+    const ownerEmails = new Map((owners || []).map((o) => [o.id, o.email]));
+
+    return (trips || []).map((trip) => ({
+      ...trip,
+      owner_email: ownerEmails.get(trip.owner_id) || null,
+      role: (roles.get(trip.id) ||
+        DEFAULT_COLLABORATOR_ROLE) as CollaboratorRole,
+    }));
   }
 
   /**
-   * Check if a user (email) has access to a target owner's trip.
-   * Access granted if:
-   * 1. targetOwnerId matches the user's ID (Self).
-   * 2. The user's email is in the target owner's collaborators list.
+   * Role of a user (email) in a trip:
+   * 1. "owner" if the user owns the trip.
+   * 2. The collaborator's role if the email is in the collaborators list.
+   * 3. null otherwise (no access).
    *
-   * @param targetOwnerId The ID of the trip owner.
+   * @param trip The trip being accessed.
    * @param userEmail The email of the user trying to access.
-   * @param userId The ID of the user trying to access (for self-check).
+   * @param userId The ID of the user trying to access (for owner check).
    */
-  static async hasAccess(
-    targetOwnerId: string,
+  static async getRole(
+    trip: Pick<Trip, "id" | "owner_id">,
     userEmail: string,
     userId: string
-  ): Promise<boolean> {
-    // 1. Self Check
-    if (targetOwnerId === userId) {
-      return true;
+  ): Promise<TripRole | null> {
+    // 1. Owner Check
+    if (trip.owner_id === userId) {
+      return "owner";
     }
 
     // 2. Collaborator Check
     const { data } = await supabase
       .from("trip_collaborators")
-      .select("id")
-      .eq("trip_owner_id", targetOwnerId)
+      .select("role")
+      .eq("trip_id", trip.id)
       .eq("email", userEmail.toLowerCase().trim())
       .single();
 
-    return !!data;
+    if (!data) return null;
+    return (data.role as CollaboratorRole) || DEFAULT_COLLABORATOR_ROLE;
   }
 
   /**
-   * Fetch a profile by ID using Service Role.
+   * Check if a user (email) has access to a trip, with any role.
+   */
+  static async hasAccess(
+    trip: Pick<Trip, "id" | "owner_id">,
+    userEmail: string,
+    userId: string
+  ): Promise<boolean> {
+    return !!(await this.getRole(trip, userEmail, userId));
+  }
+
+  /**
+   * Fetch the profile of a trip owner by ID using Service Role.
    */
   static async getOwnerProfile(ownerId: string) {
     const { data, error } = await supabase
       .from("profiles")
-      .select("id, email, spreadsheet_id, public_slug, is_public")
+      .select("id, email")
       .eq("id", ownerId)
       .single();
 
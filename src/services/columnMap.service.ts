@@ -0,0 +1,323 @@
+import { Location } from "../types";
+import { SheetsService } from "./sheets.service";
+import { supabaseAdmin } from "./supabase";
+
+/**
+ * Logical columns of the "Locations" tab.
+ * Keys follow the Location field names, except `photo` which holds either a
+ * Google photo reference or a manually pasted image URL.
+ */
+export const LOCATION_COLUMNS = [
+  "name",
+  "city",
+  "type",
+  "priceJpy",
+  "description",
+  "googleMapsUrl",
+  "lat",
+  "lng",
+  "photo",
+  "id",
+] as const;
+
+export type LocationColumn = (typeof LOCATION_COLUMNS)[number];
+
+// 0-based column index per logical column (-1 = not present)
+export type ColumnMap = Record<LocationColumn, number>;
+
+// User-defined header names per logical column (stored per trip)
+export type HeaderAliases = Partial<Record<LocationColumn, string[]>>;
+
+// How a column was matched: user alias, built-in header, legacy position,
+// or not at all (header has to be appended)
+export type ColumnSource = "alias" | "builtin" | "position" | "missing";
+
+// Header written when a column has to be created
+export const DEFAULT_HEADERS: Record<LocationColumn, string> = {
+  name: "Restaurant Name",
+  city: "City",
+  type: "Cuisine Type",
+  priceJpy: "Price (JPY)",
+  description: "Best For",
+  googleMapsUrl: "Google Maps",
+  lat: "Latitude",
+  lng: "Longitude",
+  photo: "Photo Reference",
+  id: "Location ID",
+};
+
+// Built-in header names recognized out of the box (compared normalized).
+// The first entry of each list is DEFAULT_HEADERS.
+const BUILTIN_ALIASES: Record<LocationColumn, string[]> = {
+  name: ["restaurant name", "name", "place", "名前", "店名", "ชื่อ"],
+  city: ["city", "都市", "เมือง"],
+  type: ["cuisine type", "type", "category", "種類", "ジャンル", "ประเภท"],
+  priceJpy: ["price (jpy)", "price", "価格", "料金", "ราคา"],
+  description: ["best for", "description", "説明", "รายละเอียด"],
+  googleMapsUrl: ["google maps", "google maps url", "url", "地図", "แผนที่"],
+  lat: ["latitude", "lat", "緯度", "ละติจูด"],
+  lng: ["longitude", "lng", "経度", "ลองจิจูด"],
+  photo: ["photo reference", "photo", "写真", "รูปภาพ"],
+  id: ["location id"],
+};
+
+// Legacy template order, used when a header can't be matched by name
+const LEGACY_POSITIONS: Partial<Record<LocationColumn, number>> = {
+  name: 0,
+  city: 1,
+  type: 2,
+  priceJpy: 3,
+  description: 4,
+  googleMapsUrl: 5,
+  lat: 6,
+  lng: 7,
+  photo: 8,
+};
+
+// Detected maps are cached per spreadsheet to avoid re-reading the header
+// on every write. Sync always re-detects and refreshes the entry.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const cache = new Map<string, { map: ColumnMap; expiresAt: number }>();
+
+const normalizeHeader = (h: string) =>
+  String(h || "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+export class ColumnMapService {
+  /**
+   * Detect the column layout from a header row (pure, no I/O).
+   * User aliases win over built-in names, which win over legacy positions.
+   * Returns the map plus the columns that have no header yet and must be
+   * appended to the sheet.
+   */
+  static detect(headerRow: string[], aliases: HeaderAliases = {}) {
+    const headers = (headerRow || []).map(normalizeHeader);
+    const map = {} as ColumnMap;
+    const sources = {} as Record<LocationColumn, ColumnSource>;
+    const claimed = new Set<number>();
+
+    const claim = (col: LocationColumn, names: string[], src: ColumnSource) => {
+      for (const name of names) {
+        const idx = headers.indexOf(normalizeHeader(name));
+        if (idx !== -1 && !claimed.has(idx)) {
+          map[col] = idx;
+          sources[col] = src;
+          claimed.add(idx);
+          return;
+        }
+      }
+    };
+
+    for (const col of LOCATION_COLUMNS) map[col] = -1;
+    for (const col of LOCATION_COLUMNS) {
+      if (aliases[col]?.length) claim(col, aliases[col]!, "alias");
+    }
+    for (const col of LOCATION_COLUMNS) {
+      if (map[col] === -1) claim(col, BUILTIN_ALIASES[col], "builtin");
+    }
+
+    // Fallback if headers are missing/wrong names (Legacy support).
+    // Only claim a position that no detected header already uses, otherwise
+    // a reordered sheet would get two fields written into the same column.
+    // Anything still unresolved gets a new header appended (in column order,
+    // so an empty sheet ends up with the legacy template + ID column).
+    const missing: LocationColumn[] = [];
+    for (const col of LOCATION_COLUMNS) {
+      if (map[col] !== -1) continue;
+      const pos = LEGACY_POSITIONS[col];
+      if (pos !== undefined && pos < headers.length && !claimed.has(pos)) {
+        map[col] = pos;
+        sources[col] = "position";
+        claimed.add(pos);
+      } else {
+        sources[col] = "missing";
+        missing.push(col);
+      }
+    }
+
+    return { map, missing, sources };
+  }
+
+  /**
+   * Resolve the column map for a header row, appending headers for missing
+   * columns to the sheet, and cache the result for this spreadsheet.
+   * Returns the (possibly extended) header row alongside the map.
+   */
+  static async resolve(
+    tripId: string,
+    auth: any,
+    spreadsheetId: string,
+    headerRow: string[]
+  ) {
+    const aliases = await this.getAliases(tripId);
+    const { map, missing } = this.detect(headerRow, aliases);
+    const headers = [...(headerRow || [])];
+
+    if (missing.length > 0) {
+      console.log(
+        `[ColumnMap] appending missing headers: ${missing.join(", ")}`
+      );
+      for (const col of missing) {
+        headers.push(DEFAULT_HEADERS[col]);
+        map[col] = headers.length - 1;
+      }
+      await SheetsService.updateRange(auth, spreadsheetId, "Locations!A1", [
+        headers,
+      ]);
+    }
+
+    cache.set(spreadsheetId, { map, expiresAt: Date.now() + CACHE_TTL_MS });
+    return { map, headers, added: missing };
+  }
+
+  /**
+   * Get the column map for a spreadsheet, reading the header row only when
+   * the cached entry is missing or stale.
+   */
+  static async getColumnMap(
+    tripId: string,
+    auth: any,
+    spreadsheetId: string
+  ): Promise<ColumnMap> {
+    const hit = cache.get(spreadsheetId);
+    if (hit && hit.expiresAt > Date.now()) return hit.map;
+
+    const rows = await SheetsService.getValues(
+      auth,
+      spreadsheetId,
+      "Locations!1:1"
+    );
+    const { map } = await this.resolve(
+      tripId,
+      auth,
+      spreadsheetId,
+      rows?.[0] || []
+    );
+    return map;
+  }
+
+  /**
+   * Get the header aliases configured for a trip ({} if none).
+   */
+  static async getAliases(tripId: string): Promise<HeaderAliases> {
+    const { data, error } = await supabaseAdmin
+      .from("column_mappings")
+      .select("aliases")
+      .eq("trip_id", tripId)
+      .single();
+
+    if (error && error.code !== "PGRST116") throw error;
+    return (data?.aliases as HeaderAliases) || {};
+  }
+
+  /**
+   * Replace the header aliases of a trip.
+   * The caller must invalidate the cached map of the trip's spreadsheet.
+   */
+  static async setAliases(tripId: string, aliases: HeaderAliases) {
+    const cleaned: HeaderAliases = {};
+    for (const col of LOCATION_COLUMNS) {
+      const names = (aliases[col] || [])
+        .map((n) => n.trim())
+        .filter((n) => !!n);
+      if (names.length > 0) cleaned[col] = names;
+    }
+
+    const { error } = await supabaseAdmin.from("column_mappings").upsert(
+      {
+        trip_id: tripId,
+        aliases: cleaned,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "trip_id" }
+    );
+
+    if (error) {
+      console.error("Error saving column aliases:", error);
+      throw new Error("Failed to save column aliases");
+    }
+    return cleaned;
+  }
+
+  /**
+   * Drop the cached map (e.g. after the sheet is disconnected).
+   */
+  static invalidate(spreadsheetId: string) {
+    cache.delete(spreadsheetId);
+  }
+
+  /**
+   * Convert Location fields into logical column values.
+   * Only fields present in `loc` are returned; `photoRef` wins over `photoUrl`.
+   */
+  static toColumnValues(
+    loc: Partial<Location> & { photoRef?: string }
+  ): Partial<Record<LocationColumn, any>> {
+    const values: Partial<Record<LocationColumn, any>> = {};
+    for (const col of LOCATION_COLUMNS) {
+      if (col === "photo") continue;
+      const value = (loc as any)[col];
+      if (value !== undefined) values[col] = value;
+    }
+    const photo = loc.photoRef || loc.photoUrl;
+    if (photo !== undefined) values.photo = photo;
+    return values;
+  }
+
+  /**
+   * Read the logical column values of a sheet row (inverse of toRow).
+   */
+  static fromRow(map: ColumnMap, row: string[]) {
+    const values: Partial<Record<LocationColumn, string>> = {};
+    for (const col of LOCATION_COLUMNS) {
+      if (map[col] !== -1) values[col] = row[map[col]] ?? "";
+    }
+    return values;
+  }
+
+  /**
+   * Build a full row (for append) from logical column values.
+   */
+  static toRow(map: ColumnMap, values: Partial<Record<LocationColumn, any>>) {
+    const width = Math.max(...Object.values(map)) + 1;
+    const row: any[] = new Array(width).fill("");
+    for (const col of LOCATION_COLUMNS) {
+      const value = values[col];
+      if (map[col] !== -1 && value !== undefined && value !== null) {
+        row[map[col]] = value;
+      }
+    }
+    return row;
+  }
+
+  /**
+   * Build single-cell updates for one sheet row (1-based row number).
+   */
+  static toCellUpdates(
+    map: ColumnMap,
+    rowNumber: number,
+    values: Partial<Record<LocationColumn, any>>
+  ) {
+    const changes: { range: string; values: any[][] }[] = [];
+    for (const col of LOCATION_COLUMNS) {
+      const value = values[col];
+      if (map[col] === -1 || value === undefined) continue;
+      changes.push({
+        range: `Locations!${columnLetter(map[col])}${rowNumber}`,
+        values: [[value]],
+      });
+    }
+    return changes;
+  }
+}
+
+// 0-based column index -> A1 column letter (0 -> A, 26 -> AA)
+export function columnLetter(n: number): string {
+  let letter = "";
+  for (let i = n + 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((i - 1) % 26)) + letter;
+  }
+  return letter;
+}
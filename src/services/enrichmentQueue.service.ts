@@ -0,0 +1,334 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { GeocodingService } from "./geocoding.service";
+import { applyEnrichment, getLocationsFromDb } from "./syncService";
+import { TripService } from "./trip.service";
+import { Location, PlaceData } from "../types";
+
+// Give up on a location after this many failed lookups
+const MAX_ATTEMPTS = 5;
+// Retry delay doubles per attempt: 1m, 2m, 4m, 8m
+const BACKOFF_BASE_MS = 60 * 1000;
+// A job stuck in "processing" this long is assumed to belong to a dead worker
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+// Rough upper bound of one Places lookup (search + details), used to stop
+// claiming work we can't finish inside the time budget
+const LOOKUP_ESTIMATE_MS = 1500;
+
+// "skipped": looked up, but the location was gone from the cache or the
+// sheet when writing back; queued again the next time it is enqueued
+export type EnrichmentJobStatus =
+  | "queued"
+  | "processing"
+  | "done"
+  | "skipped"
+  | "failed";
+
+interface EnrichmentJob {
+  id: number;
+  trip_id: string;
+  location_id: string;
+  attempts: number;
+}
+
+export class EnrichmentQueue {
+  /**
+   * Queue locations for enrichment.
+   * Locations that already have a job are left untouched (unless it was
+   * skipped), so a place Google has no price for isn't looked up again on
+   * every sync.
+   * Returns the number of jobs still waiting for this trip.
+   */
+  static async enqueue(tripId: string, locationIds: string[]) {
+    if (locationIds.length > 0) {
+      const { error } = await supabase.from("enrichment_jobs").upsert(
+        locationIds.map((locationId) => ({
+          trip_id: tripId,
+          location_id: locationId,
+        })),
+        { onConflict: "trip_id,location_id", ignoreDuplicates: true }
+      );
+      const { error: requeueError } = await supabase
+        .from("enrichment_jobs")
+        .update({
+          status: "queued",
+          attempts: 0,
+          next_attempt_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("trip_id", tripId)
+        .eq("status", "skipped")
+        .in("location_id", locationIds);
+
+      if (error || requeueError) {
+        console.error("Error queueing enrichment jobs:", error || requeueError);
+        throw new Error("Failed to queue enrichment jobs");
+      }
+    }
+
+    const { queued, processing } = await this.getStatus(tripId);
+    return queued + processing;
+  }
+
+  /**
+   * Per-trip job counts plus the most recent failures.
+   */
+  static async getStatus(tripId: string) {
+    const statuses: EnrichmentJobStatus[] = [
+      "queued",
+      "processing",
+      "done",
+      "skipped",
+      "failed",
+    ];
+
+    const counts = await Promise.all(
+      statuses.map(async (status) => {
+        const { count, error } = await supabase
+          .from("enrichment_jobs")
+          .select("id", { count: "exact", head: true })
+          .eq("trip_id", tripId)
+          .eq("status", status);
+        if (error) throw new Error("Failed to fetch enrichment status");
+        return count || 0;
+      })
+    );
+
+    const { data: failures } = await supabase
+      .from("enrichment_jobs")
+      .select("location_id, attempts, last_error, updated_at")
+      .eq("trip_id", tripId)
+      .eq("status", "failed")
+      .order("updated_at", { ascending: false })
+      .limit(20);
+
+    const [queued, processing, done, skipped, failed] = counts;
+    return {
+      queued,
+      processing,
+      done,
+      skipped,
+      failed,
+      total: queued + processing + done + skipped + failed,
+      failures: failures || [],
+    };
+  }
+
+  /**
+   * Put failed jobs of a trip back in the queue.
+   */
+  static async retryFailed(tripId: string) {
+    const { data, error } = await supabase
+      .from("enrichment_jobs")
+      .update({
+        status: "queued",
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("trip_id", tripId)
+      .eq("status", "failed")
+      .select("id");
+
+    if (error) throw new Error("Failed to retry enrichment jobs");
+    return data?.length || 0;
+  }
+
+  /**
+   * Worker: claim due jobs and process them until the time budget is spent.
+   * Safe to run concurrently (claims are conditional on the previous state).
+   * Scope to one trip for interactive syncs, or leave it open for the cron.
+   */
+  static async process(options: { tripId?: string; timeBudgetMs: number }) {
+    const deadline = Date.now() + options.timeBudgetMs;
+    let processed = 0;
+    let succeeded = 0;
+    let failed = 0;
+
+    while (Date.now() + LOOKUP_ESTIMATE_MS < deadline) {
+      const remainingMs = deadline - Date.now();
+      const batchSize = Math.max(
+        1,
+        Math.min(10, Math.floor(remainingMs / LOOKUP_ESTIMATE_MS))
+      );
+      const jobs = await this.claim(batchSize, options.tripId);
+      if (jobs.length === 0) break;
+
+      // Group by trip so each sheet is read/written once per batch
+      const byTrip = new Map<string, EnrichmentJob[]>();
+      for (const job of jobs) {
+        byTrip.set(job.trip_id, [...(byTrip.get(job.trip_id) || []), job]);
+      }
+
+      for (const [tripId, tripJobs] of byTrip) {
+        const result = await this.processTripJobs(tripId, tripJobs, deadline);
+        processed += result.processed;
+        succeeded += result.succeeded;
+        failed += result.failed;
+      }
+    }
+
+    return { processed, succeeded, failed };
+  }
+
+  // Atomically move due jobs to "processing"
+  private static async claim(limit: number, tripId?: string) {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS);
+
+    let query = supabase
+      .from("enrichment_jobs")
+      .select("id, trip_id, location_id, attempts, status, updated_at")
+      .or(
+        `status.eq.queued,and(status.eq.processing,updated_at.lt.${staleBefore.toISOString()})`
+      )
+      .lte("next_attempt_at", now.toISOString())
+      .order("next_attempt_at", { ascending: true })
+      .limit(limit);
+    if (tripId) query = query.eq("trip_id", tripId);
+
+    const { data: candidates, error } = await query;
+    if (error) throw new Error("Failed to fetch enrichment jobs");
+
+    const claimed: EnrichmentJob[] = [];
+    for (const job of candidates || []) {
+      // Conditional update: loses cleanly if another worker got there first
+      const { data } = await supabase
+        .from("enrichment_jobs")
+        .update({ status: "processing", updated_at: now.toISOString() })
+        .eq("id", job.id)
+        .eq("status", job.status)
+        .eq("updated_at", job.updated_at)
+        .select("id, trip_id, location_id, attempts");
+      if (data && data.length > 0) claimed.push(data[0]);
+    }
+    return claimed;
+  }
+
+  private static async processTripJobs(
+    tripId: string,
+    jobs: EnrichmentJob[],
+    deadline: number
+  ) {
+    let locations: Location[] = [];
+    let country: string;
+    try {
+      locations = await getLocationsFromDb(tripId);
+      ({ country } = await TripService.getSettings(tripId));
+    } catch (e: any) {
+      await Promise.all(jobs.map((job) => this.markFailed(job, e.message)));
+      return { processed: jobs.length, succeeded: 0, failed: jobs.length };
+    }
+    const byId = new Map(locations.map((loc) => [loc.id, loc]));
+
+    const found: { job: EnrichmentJob; data: PlaceData }[] = [];
+    const outcomes: Promise<any>[] = [];
+    let failed = 0;
+
+    // Sequential lookups to stay under Google Maps QPS limits
+    for (const job of jobs) {
+      const loc = byId.get(job.location_id);
+      if (!loc) {
+        // Deleted since it was queued: nothing left to do
+        outcomes.push(this.markDone(job));
+        continue;
+      }
+      if (Date.now() + LOOKUP_ESTIMATE_MS > deadline) {
+        outcomes.push(this.release(job));
+        continue;
+      }
+
+      const data = await GeocodingService.fetchPlaceData(
+        `${loc.name}, ${loc.city}, ${country}`
+      );
+      if (data) {
+        found.push({ job, data });
+      } else {
+        outcomes.push(this.markFailed(job, "No place found"));
+        failed++;
+      }
+    }
+
+    let succeeded = 0;
+    if (found.length > 0) {
+      try {
+        const applied = new Set(
+          await applyEnrichment(
+            tripId,
+            found.map(({ job, data }) => ({
+              locationId: job.location_id,
+              data,
+            }))
+          )
+        );
+        for (const { job } of found) {
+          if (applied.has(job.location_id)) {
+            outcomes.push(this.markDone(job));
+            succeeded++;
+          } else {
+            outcomes.push(this.markSkipped(job));
+          }
+        }
+      } catch (e: any) {
+        console.error("[Enrich] Write-back failed", e);
+        failed += found.length;
+        for (const { job } of found) {
+          outcomes.push(this.markFailed(job, e.message || "Write-back failed"));
+        }
+      }
+    }
+
+    await Promise.all(outcomes);
+    return { processed: jobs.length, succeeded, failed };
+  }
+
+  private static async markDone(job: EnrichmentJob) {
+    await supabase
+      .from("enrichment_jobs")
+      .update({
+        status: "done",
+        attempts: job.attempts + 1,
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id);
+  }
+
+  // Nothing was written back: the location (or its row) was gone by then
+  private static async markSkipped(job: EnrichmentJob) {
+    await supabase
+      .from("enrichment_jobs")
+      .update({
+        status: "skipped",
+        attempts: job.attempts + 1,
+        last_error: "Location not found when writing back",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id);
+  }
+
+  // Schedule a retry with exponential backoff, or give up
+  private static async markFailed(job: EnrichmentJob, message: string) {
+    const attempts = job.attempts + 1;
+    const giveUp = attempts >= MAX_ATTEMPTS;
+    const delay = BACKOFF_BASE_MS * Math.pow(2, attempts - 1);
+
+    await supabase
+      .from("enrichment_jobs")
+      .update({
+        status: giveUp ? "failed" : "queued",
+        attempts,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + delay).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id);
+  }
+
+  // Hand a claimed job back untouched (ran out of time)
+  private static async release(job: EnrichmentJob) {
+    await supabase
+      .from("enrichment_jobs")
+      .update({ status: "queued", updated_at: new Date().toISOString() })
+      .eq("id", job.id);
+  }
+}
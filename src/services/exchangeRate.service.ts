@@ -0,0 +1,144 @@
+import fs from "fs";
+import { supabaseAdmin as supabase } from "./supabase";
+import { CONFIG } from "../config";
+import { BUNDLED_EXCHANGE_RATES } from "../data/exchangeRates";
+import { ExchangeRate, Location } from "../types";
+import { priceLocation } from "../utils/price";
+
+interface RateTable {
+  updatedAt: string;
+  rates: Record<string, number>; // per 1 JPY
+}
+
+// Rates from EXCHANGE_RATES_FILE, read once per process (null = no file)
+let fileRates: RateTable | null | undefined;
+
+// Accepts { updatedAt, base?, rates }. A base other than JPY (e.g. an export
+// from a rates API in USD) is rebased using its JPY entry.
+function loadFileRates(): RateTable | null {
+  if (fileRates !== undefined) return fileRates;
+  fileRates = null;
+  if (!CONFIG.RATES.FILE) return null;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(CONFIG.RATES.FILE, "utf8"));
+    const base = (parsed.base || "JPY").toUpperCase();
+    const rates: Record<string, number> = {};
+
+    const perBase = parsed.rates || {};
+    const jpyPerBase = base === "JPY" ? 1 : Number(perBase.JPY);
+    if (!jpyPerBase) throw new Error(`No JPY rate for base ${base}`);
+
+    for (const [currency, value] of Object.entries(perBase)) {
+      const n = Number(value);
+      if (n > 0) rates[currency.toUpperCase()] = n / jpyPerBase;
+    }
+    if (base !== "JPY") rates[base] = 1 / jpyPerBase;
+
+    fileRates = {
+      updatedAt:
+        parsed.updatedAt || fs.statSync(CONFIG.RATES.FILE).mtime.toISOString(),
+      rates,
+    };
+    console.log(
+      `[Rates] Loaded ${Object.keys(rates).length} rates from ${
+        CONFIG.RATES.FILE
+      }`
+    );
+  } catch (e: any) {
+    console.warn("[Rates] Could not load EXCHANGE_RATES_FILE:", e.message);
+  }
+  return fileRates;
+}
+
+export class ExchangeRateService {
+  /**
+   * Rates for a trip, per currency: trip overrides first, then the rates
+   * file, then the bundled table. Each rate carries its source and timestamp.
+   */
+  static async getRates(tripId: string) {
+    const result: Record<string, ExchangeRate> = {};
+
+    const addTable = (table: RateTable, source: ExchangeRate["source"]) => {
+      for (const [currency, rate] of Object.entries(table.rates)) {
+        result[currency] = {
+          currency,
+          rate,
+          source,
+          updatedAt: table.updatedAt,
+        };
+      }
+    };
+    addTable(BUNDLED_EXCHANGE_RATES, "bundled");
+    const file = loadFileRates();
+    if (file) addTable(file, "file");
+
+    const { data, error } = await supabase
+      .from("exchange_rates")
+      .select("currency, rate, updated_at")
+      .eq("trip_id", tripId);
+
+    if (error) {
+      console.error("Error fetching exchange rates:", error);
+      throw new Error("Failed to fetch exchange rates");
+    }
+    for (const row of data || []) {
+      result[row.currency] = {
+        currency: row.currency,
+        rate: Number(row.rate),
+        source: "manual",
+        updatedAt: row.updated_at,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Set manual rates for a trip (units of each currency per 1 JPY).
+   */
+  static async setRates(tripId: string, rates: Record<string, number>) {
+    const rows = Object.entries(rates).map(([currency, rate]) => ({
+      trip_id: tripId,
+      currency,
+      rate,
+      updated_at: new Date().toISOString(),
+    }));
+    if (rows.length === 0) return;
+
+    const { error } = await supabase
+      .from("exchange_rates")
+      .upsert(rows, { onConflict: "trip_id,currency" });
+
+    if (error) {
+      console.error("Error saving exchange rates:", error);
+      throw new Error("Failed to save exchange rates");
+    }
+  }
+
+  /**
+   * Drop a manual rate, falling back to the file/bundled one.
+   */
+  static async clearRate(tripId: string, currency: string) {
+    const { error } = await supabase
+      .from("exchange_rates")
+      .delete()
+      .eq("trip_id", tripId)
+      .eq("currency", currency);
+
+    if (error) throw new Error("Failed to clear exchange rate");
+  }
+
+  /**
+   * Parse priceJpy of each location and convert it to THB and the trip's
+   * home currency.
+   */
+  static async priceLocations(
+    tripId: string,
+    locations: Location[],
+    homeCurrency: string
+  ) {
+    const rates = await this.getRates(tripId);
+    return locations.map((loc) => priceLocation(loc, rates, homeCurrency));
+  }
+}
@@ -0,0 +1,603 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { SheetsService } from "./sheets.service";
+import { ExchangeRateService } from "./exchangeRate.service";
+import { TripService } from "./trip.service";
+import { CollaboratorService } from "./collaboratorService";
+import {
+  getItineraryFromDb,
+  getLocationsFromDb,
+  getSheetContext,
+} from "./syncService";
+import { ActivityService, pickFields } from "./activity.service";
+import { MutationContext } from "../types";
+import { convertAmount, parsePriceJpy } from "../utils/price";
+import { compareDays, dayDate, UNSCHEDULED_DAY } from "../utils/tripDays";
+import {
+  SplitMode,
+  SplitPart,
+  settleUp,
+  splitAmount,
+  validateSplit,
+} from "../utils/split";
+
+export const EXPENSE_CATEGORIES = [
+  "food",
+  "transport",
+  "lodging",
+  "activities",
+  "shopping",
+  "other",
+] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+
+export interface Expense {
+  id: string;
+  trip_id: string;
+  amount: number;
+  currency: string; // ISO 4217
+  category: ExpenseCategory;
+  payer: string; // Email of the participant who paid
+  split_mode: SplitMode;
+  splits: SplitPart[]; // Who shares the cost (empty = all participants)
+  location_id: string | null;
+  day: string | null; // Itinerary day label, e.g. "Day 2"
+  note: string;
+  spent_on: string | null; // YYYY-MM-DD
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExpenseInput {
+  amount: number;
+  currency: string;
+  category: ExpenseCategory;
+  payer: string;
+  splitMode?: SplitMode; // Default "equal"
+  splits?: SplitPart[]; // Default all current participants
+  locationId?: string | null;
+  day?: string | null;
+  note?: string;
+  spentOn?: string | null;
+}
+
+// One line of a summary. Estimates come from the priceJpy of the locations
+// planned in the itinerary (per visit, as written in the sheet); null when
+// none of them has a usable price. estimatedMax is null if a price is
+// open-ended ("3000+").
+export interface ExpenseTotal {
+  key: string;
+  actual: number;
+  count: number;
+  estimatedMin: number | null;
+  estimatedMax: number | null;
+}
+
+const EXPENSES_TAB = "Expenses";
+const EXPENSE_HEADERS = [
+  "Expense ID",
+  "Date",
+  "Day",
+  "Category",
+  "Amount",
+  "Currency",
+  "Payer",
+  "Location ID",
+  "Note",
+  "Split",
+];
+const UNASSIGNED_CITY = "Unassigned";
+// Expense fields kept in activity before/after summaries
+const ACTIVITY_FIELDS = ["amount", "currency", "category", "payer"];
+
+const describe = (expense: Expense) =>
+  `${expense.amount} ${expense.currency} (${expense.category})`;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export class ExpenseService {
+  /**
+   * Expenses of a trip (oldest first).
+   */
+  static async list(tripId: string): Promise<Expense[]> {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select("*")
+      .eq("trip_id", tripId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error listing expenses:", error);
+      throw new Error("Failed to list expenses");
+    }
+    return (data || []).map((row) => ({ ...row, amount: Number(row.amount) }));
+  }
+
+  /**
+   * Get one expense of a trip.
+   */
+  static async get(tripId: string, expenseId: string): Promise<Expense> {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("id", expenseId)
+      .maybeSingle();
+
+    // 22P02: not a valid UUID
+    if (error && error.code !== "22P02") {
+      throw new Error("Failed to fetch expense");
+    }
+    if (!data) throw new Error("Expense not found");
+    return { ...data, amount: Number(data.amount) } as Expense;
+  }
+
+  /**
+   * Record an expense and mirror the "Expenses" tab if enabled.
+   */
+  static async create(
+    tripId: string,
+    input: ExpenseInput,
+    ctx: MutationContext
+  ): Promise<Expense> {
+    await this.checkLocation(tripId, input.locationId);
+    const split = await this.checkSplit(tripId, input);
+
+    const { data, error } = await supabase
+      .from("expenses")
+      .insert({
+        ...this.toColumns({ ...input, ...split }),
+        trip_id: tripId,
+        created_by: ctx.actorId,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating expense:", error);
+      throw new Error("Failed to create expense");
+    }
+
+    const expense = { ...data, amount: Number(data.amount) } as Expense;
+    await ActivityService.record(tripId, ctx, {
+      type: "expense.add",
+      target: expense.id,
+      summary: describe(expense),
+      after: pickFields(expense, ACTIVITY_FIELDS),
+    });
+    await this.mirrorToSheet(tripId);
+    return expense;
+  }
+
+  /**
+   * Change the fields given of an expense.
+   */
+  static async update(
+    tripId: string,
+    expenseId: string,
+    input: Partial<ExpenseInput>,
+    ctx: MutationContext
+  ): Promise<Expense> {
+    const current = await this.get(tripId, expenseId);
+    await this.checkLocation(tripId, input.locationId);
+
+    // Re-check the split against the amount after a change to any of them;
+    // only a new payer or split has to name current participants, so
+    // expenses of people who left (or a free-text payer) stay editable
+    const touchesSplit =
+      input.amount !== undefined ||
+      input.payer !== undefined ||
+      input.splitMode !== undefined ||
+      input.splits !== undefined;
+    let split: Partial<ExpenseInput> = {};
+    if (touchesSplit) {
+      const checked = await this.checkSplit(
+        tripId,
+        {
+          amount: current.amount,
+          payer: current.payer,
+          splitMode: current.split_mode,
+          splits: current.splits,
+          ...input,
+        },
+        { payer: input.payer !== undefined, splits: input.splits !== undefined }
+      );
+      // The stored payer is only rewritten when the patch changes it
+      split = {
+        splitMode: checked.splitMode,
+        splits: checked.splits,
+        ...(input.payer !== undefined && { payer: checked.payer }),
+      };
+    }
+
+    const { data, error } = await supabase
+      .from("expenses")
+      .update({
+        ...this.toColumns({ ...input, ...split }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("trip_id", tripId)
+      .eq("id", expenseId)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error updating expense:", error);
+      throw new Error("Failed to update expense");
+    }
+
+    const expense = { ...data, amount: Number(data.amount) } as Expense;
+    await ActivityService.record(tripId, ctx, {
+      type: "expense.update",
+      target: expenseId,
+      summary: describe(expense),
+      before: pickFields(current, ACTIVITY_FIELDS),
+      after: pickFields(expense, ACTIVITY_FIELDS),
+    });
+    await this.mirrorToSheet(tripId);
+    return expense;
+  }
+
+  /**
+   * Delete an expense.
+   */
+  static async remove(tripId: string, expenseId: string, ctx: MutationContext) {
+    const expense = await this.get(tripId, expenseId);
+
+    const { error } = await supabase
+      .from("expenses")
+      .delete()
+      .eq("trip_id", tripId)
+      .eq("id", expenseId);
+
+    if (error) throw new Error("Failed to delete expense");
+    await ActivityService.record(tripId, ctx, {
+      type: "expense.delete",
+      target: expenseId,
+      summary: describe(expense),
+      before: pickFields(expense, ACTIVITY_FIELDS),
+    });
+    await this.mirrorToSheet(tripId);
+  }
+
+  /**
+   * People who can pay for or share an expense: the trip owner and its
+   * collaborators (by email).
+   */
+  static async listParticipants(tripId: string) {
+    const trip = await TripService.getTrip(tripId);
+    if (!trip) throw new Error("Trip not found");
+
+    const [owner, collaborators] = await Promise.all([
+      CollaboratorService.getOwnerProfile(trip.owner_id),
+      CollaboratorService.listCollaborators(tripId),
+    ]);
+
+    const participants = [
+      { email: owner.email.toLowerCase(), role: "owner" },
+      ...collaborators.map((c) => ({
+        email: c.email.toLowerCase(),
+        role: "collaborator",
+      })),
+    ];
+    return participants.filter(
+      (p, i) => participants.findIndex((q) => q.email === p.email) === i
+    );
+  }
+
+  /**
+   * Net position of each participant in the trip's home currency (paid
+   * minus their share) and the transfers that settle them. People who left
+   * the trip but still have expenses are included with `former: true`.
+   */
+  static async balances(tripId: string) {
+    const [settings, expenses, rates, participants] = await Promise.all([
+      TripService.getSettings(tripId),
+      this.list(tripId),
+      ExchangeRateService.getRates(tripId),
+      this.listParticipants(tripId),
+    ]);
+    const currency = settings.homeCurrency;
+    if (!rates[currency]) throw new Error(`No exchange rate for ${currency}`);
+
+    const people = new Map<string, { paid: number; owed: number }>();
+    const person = (email: string) => {
+      if (!people.has(email)) people.set(email, { paid: 0, owed: 0 });
+      return people.get(email)!;
+    };
+    participants.forEach((p) => person(p.email));
+
+    const unconverted: Expense[] = [];
+    for (const expense of expenses) {
+      const amount = convertAmount(
+        expense.amount,
+        expense.currency,
+        currency,
+        rates
+      );
+      if (amount === null) {
+        unconverted.push(expense);
+        continue;
+      }
+
+      const parts = expense.splits?.length
+        ? expense.splits
+        : participants.map((p) => ({ email: p.email }));
+      const owed = splitAmount(expense.amount, expense.split_mode, parts);
+      const factor = amount / expense.amount;
+
+      person(expense.payer).paid += amount;
+      owed.forEach((value, email) => (person(email).owed += value * factor));
+    }
+
+    const members = new Set(participants.map((p) => p.email));
+    const net = new Map<string, number>();
+    const balances = Array.from(people.entries()).map(([email, totals]) => {
+      const value = round2(totals.paid - totals.owed);
+      net.set(email, value);
+      return {
+        email,
+        paid: round2(totals.paid),
+        owed: round2(totals.owed),
+        net: value,
+        former: !members.has(email),
+      };
+    });
+
+    return {
+      currency,
+      rate: rates[currency],
+      balances,
+      transfers: settleUp(net),
+      unconverted,
+    };
+  }
+
+  /**
+   * Turn mirroring to the "Expenses" tab on or off. Turning it on writes
+   * all existing expenses; turning it off leaves the tab as it is.
+   */
+  static async setSheetMirror(tripId: string, enabled: boolean) {
+    const { error } = await supabase
+      .from("trips")
+      .update({
+        mirror_expenses: enabled,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", tripId);
+
+    if (error) throw new Error("Failed to update expense mirroring");
+    if (enabled) await this.writeSheet(tripId);
+  }
+
+  /**
+   * Totals in one currency (the trip's home currency by default) per day,
+   * category and city, next to the estimated prices of planned locations.
+   * Expenses in a currency without a known rate are left out of the totals
+   * and listed under `unconverted`.
+   */
+  static async summarize(tripId: string, currency?: string) {
+    const [settings, expenses, rates, locations, itinerary] = await Promise.all(
+      [
+        TripService.getSettings(tripId),
+        this.list(tripId),
+        ExchangeRateService.getRates(tripId),
+        getLocationsFromDb(tripId),
+        getItineraryFromDb(tripId),
+      ]
+    );
+    const target = currency || settings.homeCurrency;
+    if (!rates[target]) throw new Error(`No exchange rate for ${target}`);
+
+    const locationsById = new Map(locations.map((loc) => [loc.id, loc]));
+    const cityOf = (locationId: string | null) =>
+      (locationId && locationsById.get(locationId)?.city) || UNASSIGNED_CITY;
+
+    const byDay = new Map<string, ExpenseTotal>();
+    const byCategory = new Map<string, ExpenseTotal>();
+    const byCity = new Map<string, ExpenseTotal>();
+    const newLine = (key: string): ExpenseTotal => ({
+      key,
+      actual: 0,
+      count: 0,
+      estimatedMin: null,
+      estimatedMax: null,
+    });
+    const entry = (map: Map<string, ExpenseTotal>, key: string) => {
+      if (!map.has(key)) map.set(key, newLine(key));
+      return map.get(key)!;
+    };
+    const overall = newLine("total");
+
+    // Actual spend
+    const unconverted: Expense[] = [];
+    for (const expense of expenses) {
+      const amount = convertAmount(
+        expense.amount,
+        expense.currency,
+        target,
+        rates
+      );
+      if (amount === null) {
+        unconverted.push(expense);
+        continue;
+      }
+
+      for (const line of [
+        overall,
+        entry(byDay, expense.day || UNSCHEDULED_DAY),
+        entry(byCategory, expense.category),
+        entry(byCity, cityOf(expense.location_id)),
+      ]) {
+        line.actual += amount;
+        line.count += 1;
+      }
+    }
+
+    // Estimates from the itinerary
+    const addEstimate = (
+      line: ExpenseTotal,
+      min: number,
+      max: number | null
+    ) => {
+      const open = line.estimatedMin !== null && line.estimatedMax === null;
+      line.estimatedMin = (line.estimatedMin || 0) + min;
+      line.estimatedMax =
+        open || max === null ? null : (line.estimatedMax || 0) + max;
+    };
+    for (const item of itinerary) {
+      const loc = locationsById.get(item.locationId);
+      const range = loc ? parsePriceJpy(loc.priceJpy) : null;
+      if (!loc || !range) continue;
+
+      const min = convertAmount(range.minJpy, "JPY", target, rates) ?? 0;
+      const max =
+        range.maxJpy === null
+          ? null
+          : convertAmount(range.maxJpy, "JPY", target, rates);
+      addEstimate(entry(byDay, item.day), min, max);
+      addEstimate(entry(byCity, loc.city || UNASSIGNED_CITY), min, max);
+      addEstimate(overall, min, max);
+    }
+
+    const roundLine = (line: ExpenseTotal): ExpenseTotal => ({
+      ...line,
+      actual: round2(line.actual),
+      estimatedMin:
+        line.estimatedMin === null ? null : round2(line.estimatedMin),
+      estimatedMax:
+        line.estimatedMax === null ? null : round2(line.estimatedMax),
+    });
+    const finish = (map: Map<string, ExpenseTotal>) =>
+      Array.from(map.values()).map(roundLine);
+
+    return {
+      currency: target,
+      rate: rates[target],
+      total: roundLine(overall),
+      byDay: finish(byDay)
+        .sort((a, b) => compareDays(a.key, b.key, settings.startDate))
+        .map((line) => ({
+          ...line,
+          date: dayDate(line.key, settings.startDate),
+        })),
+      byCategory: finish(byCategory).sort((a, b) => b.actual - a.actual),
+      byCity: finish(byCity).sort((a, b) => a.key.localeCompare(b.key)),
+      unconverted,
+    };
+  }
+
+  // A linked location must exist in the trip (trashed ones are rejected too)
+  private static async checkLocation(
+    tripId: string,
+    locationId: string | null | undefined
+  ) {
+    if (!locationId) return;
+    const locations = await getLocationsFromDb(tripId);
+    if (!locations.some((loc) => loc.id === locationId)) {
+      throw new Error("Location not found");
+    }
+  }
+
+  // Payer and split must name current participants (unless `check` skips
+  // them), and the split must add up. Returns the split to store (everyone,
+  // equally, if none is given).
+  private static async checkSplit(
+    tripId: string,
+    input: Pick<ExpenseInput, "amount" | "payer" | "splitMode" | "splits">,
+    check = { payer: true, splits: true }
+  ) {
+    const participants = await this.listParticipants(tripId);
+    const emails = new Set(participants.map((p) => p.email));
+
+    const payer = input.payer.toLowerCase().trim();
+    if (check.payer && !emails.has(payer)) {
+      throw new Error("Payer is not a trip participant");
+    }
+
+    const splitMode = input.splitMode || "equal";
+    const splits = input.splits?.length
+      ? input.splits.map((p) => ({ ...p, email: p.email.toLowerCase().trim() }))
+      : participants.map((p) => ({ email: p.email }));
+
+    const unknown = check.splits && splits.find((p) => !emails.has(p.email));
+    if (unknown) {
+      throw new Error(`${unknown.email} is not a trip participant`);
+    }
+    const invalid = validateSplit(input.amount, splitMode, splits);
+    if (invalid) throw new Error(invalid);
+
+    return { payer, splitMode, splits };
+  }
+
+  // Rewrite the "Expenses" tab if the trip mirrors expenses. The database is
+  // the source of truth, so a failing sheet only logs a warning.
+  private static async mirrorToSheet(tripId: string) {
+    const trip = await TripService.getTrip(tripId);
+    if (!trip?.mirror_expenses) return;
+
+    try {
+      await this.writeSheet(tripId);
+    } catch (e: any) {
+      console.warn(
+        `[Expenses] Failed to mirror expenses of trip ${tripId}:`,
+        e.message
+      );
+    }
+  }
+
+  private static async writeSheet(tripId: string) {
+    const { auth, spreadsheetId } = await getSheetContext(tripId);
+    const expenses = await this.list(tripId);
+
+    const metadata = await SheetsService.getMetadata(auth, spreadsheetId);
+    const exists = metadata.sheets?.some(
+      (s: any) => s.properties?.title === EXPENSES_TAB
+    );
+    if (!exists) {
+      await SheetsService.addSheet(auth, spreadsheetId, EXPENSES_TAB);
+    } else {
+      await SheetsService.clearValues(
+        auth,
+        spreadsheetId,
+        `${EXPENSES_TAB}!A:J`
+      );
+    }
+
+    const rows = expenses.map((e) => [
+      e.id,
+      e.spent_on || "",
+      e.day || "",
+      e.category,
+      e.amount,
+      e.currency,
+      e.payer,
+      e.location_id || "",
+      e.note,
+      `${e.split_mode}: ${(e.splits || []).map((p) => p.email).join(", ")}`,
+    ]);
+    await SheetsService.updateRange(
+      auth,
+      spreadsheetId,
+      `${EXPENSES_TAB}!A1:J${rows.length + 1}`,
+      [EXPENSE_HEADERS, ...rows]
+    );
+  }
+
+  // Input fields given, as expenses columns
+  private static toColumns(input: Partial<ExpenseInput>) {
+    const columns: Record<string, any> = {};
+    if (input.amount !== undefined) columns.amount = input.amount;
+    if (input.currency !== undefined) columns.currency = input.currency;
+    if (input.category !== undefined) columns.category = input.category;
+    if (input.payer !== undefined) columns.payer = input.payer;
+    if (input.splitMode !== undefined) columns.split_mode = input.splitMode;
+    if (input.splits !== undefined) columns.splits = input.splits;
+    if (input.locationId !== undefined) columns.location_id = input.locationId;
+    if (input.day !== undefined) columns.day = input.day;
+    if (input.note !== undefined) columns.note = input.note;
+    if (input.spentOn !== undefined) columns.spent_on = input.spentOn;
+    return columns;
+  }
+}
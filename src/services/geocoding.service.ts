@@ -1,5 +1,6 @@
 import axios from "axios";
 import { CONFIG } from "../config";
+import { PlaceData } from "../types";
 
 export class GeocodingService {
   /**
@@ -8,24 +9,7 @@ export class GeocodingService {
   /**
    * Fetches rich place data (lat, lng, photo, price, website, summary, etc.)
    */
-  static async fetchPlaceData(query: string): Promise<{
-    name: string;
-    city: string; // Added city
-    lat: number;
-    lng: number;
-    photoRef?: string;
-    googleMapsUrl?: string;
-    website?: string;
-    priceLevel?: string;
-    type?: string;
-    summary?: string;
-    openingHours?: {
-      weekdayText?: string[];
-      openNow?: boolean;
-    };
-    businessStatus?: string;
-    utcOffsetMinutes?: number;
-  } | null> {
+  static async fetchPlaceData(query: string): Promise<PlaceData | null> {
     if (!CONFIG.GOOGLE.MAPS_KEY) return null;
     try {
       // 1. Text Search to get Place ID
@@ -101,24 +85,7 @@ export class GeocodingService {
   /**
    * Fetches place data from a Google Maps URL (short or long).
    */
-  static async fetchPlaceFromUrl(url: string): Promise<{
-    name: string;
-    city: string;
-    lat: number;
-    lng: number;
-    photoRef?: string;
-    googleMapsUrl?: string;
-    website?: string;
-    priceLevel?: string;
-    type?: string;
-    summary?: string;
-    openingHours?: {
-      weekdayText?: string[];
-      openNow?: boolean;
-    };
-    businessStatus?: string;
-    utcOffsetMinutes?: number;
-  } | null> {
+  static async fetchPlaceFromUrl(url: string): Promise<PlaceData | null> {
     try {
       // 1. Sanitize/Extract URL
       const urlMatch = url.match(/https?:\/\/[^\s"]+/);
@@ -208,6 +175,16 @@ export class GeocodingService {
     return `https://maps.googleapis.com/maps/api/place/photo?maxwidth=800&photo_reference=${photoRef}&key=${CONFIG.GOOGLE.MAPS_KEY}`;
   }
 
+  /**
+   * Extracts the photo reference from a URL built by getPhotoUrl.
+   * Returns null for any other URL (e.g. a manually pasted image).
+   */
+  static getPhotoRefFromUrl(url: string): string | null {
+    if (!url || !url.includes("maps.googleapis.com")) return null;
+    const match = url.match(/[?&]photo_reference=([^&]+)/);
+    return match ? match[1] : null;
+  }
+
   static extractCity(components: any[]): string {
     if (!components) return "Japan";
 
@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import { supabaseAdmin as supabase } from "./supabase";
+import { ItineraryItem, Location, MutationContext } from "../types";
+
+export interface TripVersion {
+  id: number;
+  trip_id: string;
+  locations: Location[];
+  itinerary: ItineraryItem[];
+  content_hash: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  source: string;
+  created_at: string;
+}
+
+// Columns returned by the version list (without the heavy snapshot data)
+const SUMMARY_COLUMNS =
+  "id, actor_id, actor_email, source, location_count, itinerary_count, created_at";
+
+const hashContent = (locations: Location[], itinerary: ItineraryItem[]) =>
+  crypto
+    .createHash("sha1")
+    .update(JSON.stringify([locations, itinerary]))
+    .digest("hex");
+
+// Field-level comparison of two ID-keyed lists
+function diffList<T extends { id: string }>(from: T[], to: T[]) {
+  const fromById = new Map(from.map((item) => [item.id, item]));
+  const toIds = new Set(to.map((item) => item.id));
+
+  const added: T[] = [];
+  const updated: {
+    id: string;
+    fields: Record<string, { from: any; to: any }>;
+  }[] = [];
+  for (const item of to) {
+    const prev = fromById.get(item.id);
+    if (!prev) {
+      added.push(item);
+      continue;
+    }
+    const fields: Record<string, { from: any; to: any }> = {};
+    const keys = new Set([...Object.keys(prev), ...Object.keys(item)]);
+    for (const key of keys) {
+      const a = (prev as any)[key];
+      const b = (item as any)[key];
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        fields[key] = { from: a, to: b };
+      }
+    }
+    if (Object.keys(fields).length > 0) updated.push({ id: item.id, fields });
+  }
+  const removed = from.filter((item) => !toIds.has(item.id));
+
+  return { added, updated, removed };
+}
+
+export class HistoryService {
+  /**
+   * Store a snapshot of the trip's current locations and itinerary.
+   * Skipped when nothing changed since the latest snapshot (e.g. a no-op
+   * sync). Failures are logged: the write being recorded already happened.
+   */
+  static async snapshot(tripId: string, ctx: MutationContext) {
+    try {
+      const [{ data: loc }, { data: itin }] = await Promise.all([
+        supabase
+          .from("cached_locations")
+          .select("data")
+          .eq("trip_id", tripId)
+          .maybeSingle(),
+        supabase
+          .from("cached_itineraries")
+          .select("data")
+          .eq("trip_id", tripId)
+          .maybeSingle(),
+      ]);
+      const locations = (loc?.data as Location[]) || [];
+      const itinerary = (itin?.data as ItineraryItem[]) || [];
+      const contentHash = hashContent(locations, itinerary);
+
+      const { data: latest } = await supabase
+        .from("trip_versions")
+        .select("content_hash")
+        .eq("trip_id", tripId)
+        .order("id", { ascending: false })
+        .limit(1);
+      if (latest?.[0]?.content_hash === contentHash) return;
+
+      const { error } = await supabase.from("trip_versions").insert({
+        trip_id: tripId,
+        locations,
+        itinerary,
+        location_count: locations.length,
+        itinerary_count: itinerary.length,
+        content_hash: contentHash,
+        actor_id: ctx.actorId,
+        actor_email: ctx.actorEmail,
+        source: ctx.source,
+      });
+      if (error) throw error;
+    } catch (e) {
+      console.error("[History] Failed to record snapshot:", e);
+    }
+  }
+
+  /**
+   * List versions of a trip, newest first.
+   * Pass the last ID of a page as `before` to get the next page.
+   */
+  static async listVersions(tripId: string, limit = 50, before?: number) {
+    let query = supabase
+      .from("trip_versions")
+      .select(SUMMARY_COLUMNS)
+      .eq("trip_id", tripId)
+      .order("id", { ascending: false })
+      .limit(limit);
+    if (before) query = query.lt("id", before);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error listing versions:", error);
+      throw new Error("Failed to list versions");
+    }
+    return data || [];
+  }
+
+  /**
+   * Get a full version (with snapshot data) of a trip.
+   */
+  static async getVersion(
+    tripId: string,
+    versionId: number
+  ): Promise<TripVersion> {
+    const { data, error } = await supabase
+      .from("trip_versions")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("id", versionId)
+      .single();
+
+    if (error || !data) throw new Error("Version not found");
+    return data as TripVersion;
+  }
+
+  /**
+   * What changed between two versions (from -> to).
+   */
+  static async diffVersions(tripId: string, fromId: number, toId: number) {
+    const [from, to] = await Promise.all([
+      this.getVersion(tripId, fromId),
+      this.getVersion(tripId, toId),
+    ]);
+
+    return {
+      from: { id: from.id, created_at: from.created_at },
+      to: { id: to.id, created_at: to.created_at },
+      locations: diffList(from.locations || [], to.locations || []),
+      itinerary: diffList(from.itinerary || [], to.itinerary || []),
+    };
+  }
+}
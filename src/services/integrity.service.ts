@@ -0,0 +1,267 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { TripService } from "./trip.service";
+import { ItineraryItem, Location } from "../types";
+import { itemDate } from "../utils/schedule";
+import { dateRange, dayIndex } from "../utils/tripDays";
+import { hasCoordinates, haversineKm } from "../utils/route";
+
+export interface IntegrityReport {
+  checkedAt: string;
+  ok: boolean;
+  // Items whose location is gone (trashed ones can still be restored)
+  dangling: {
+    itemId: string;
+    locationId: string;
+    day: string;
+    trashed: boolean;
+  }[];
+  // Locations planned more than once
+  duplicates: { locationId: string; itemIds: string[]; days: string[] }[];
+  // Trip days (or gaps between numbered days) without any item
+  emptyDays: { day: string; date: string | null }[];
+}
+
+export interface RepairMatch {
+  itemId: string;
+  from: string; // Dangling location ID
+  to: string;
+  by: "name" | "coordinates";
+}
+
+// Places this close to where a dangling location was are taken as the same
+const SAME_PLACE_KM = 0.1;
+// Versions searched for what a dangling ID used to be
+const HISTORY_DEPTH = 20;
+
+const normalizeName = (name: string) =>
+  (name || "").normalize("NFKC").trim().toLowerCase().replace(/\s+/g, " ");
+
+export class IntegrityService {
+  /**
+   * Check the itinerary against the location list and store the report.
+   * Runs after every write to the cached locations or itinerary; failures
+   * are logged only.
+   */
+  static async check(tripId: string): Promise<IntegrityReport | null> {
+    try {
+      const report = await this.buildReport(tripId);
+      const { error } = await supabase.from("integrity_reports").upsert(
+        {
+          trip_id: tripId,
+          report,
+          checked_at: report.checkedAt,
+        },
+        { onConflict: "trip_id" }
+      );
+      if (error) throw error;
+
+      if (!report.ok) {
+        console.log(
+          `[Integrity] Trip ${tripId}: ${report.dangling.length} dangling, ${report.duplicates.length} duplicate, ${report.emptyDays.length} empty days`
+        );
+      }
+      return report;
+    } catch (e: any) {
+      console.warn(`[Integrity] Check failed for trip ${tripId}:`, e.message);
+      return null;
+    }
+  }
+
+  /**
+   * Compare the cached itinerary with the cached locations.
+   */
+  static async buildReport(tripId: string): Promise<IntegrityReport> {
+    const [{ locations, itinerary }, settings, trashed] = await Promise.all([
+      this.loadCache(tripId),
+      TripService.getSettings(tripId),
+      this.trashedIds(tripId),
+    ]);
+    const ids = new Set(locations.map((loc) => loc.id));
+
+    const dangling = itinerary
+      .filter((item) => !ids.has(item.locationId))
+      .map((item) => ({
+        itemId: item.id,
+        locationId: item.locationId,
+        day: item.day,
+        trashed: trashed.has(item.locationId),
+      }));
+
+    const byLocation = new Map<string, ItineraryItem[]>();
+    for (const item of itinerary) {
+      if (!byLocation.has(item.locationId)) byLocation.set(item.locationId, []);
+      byLocation.get(item.locationId)!.push(item);
+    }
+    const duplicates = Array.from(byLocation.entries())
+      .filter(([, items]) => items.length > 1)
+      .map(([locationId, items]) => ({
+        locationId,
+        itemIds: items.map((item) => item.id),
+        days: items.map((item) => item.day),
+      }));
+
+    const emptyDays = this.findEmptyDays(
+      itinerary,
+      settings.startDate,
+      settings.endDate
+    );
+
+    return {
+      checkedAt: new Date().toISOString(),
+      ok:
+        dangling.length === 0 &&
+        duplicates.length === 0 &&
+        emptyDays.length === 0,
+      dangling,
+      duplicates,
+      emptyDays,
+    };
+  }
+
+  /**
+   * Find current locations for dangling items (not trashed ones): what the
+   * ID used to be is looked up in the trip history, then matched by name,
+   * or by coordinates within 100 m. Returns the matches and the items left
+   * unresolved; nothing is written here.
+   */
+  static async findRepairs(tripId: string) {
+    const [{ locations, itinerary }, trashed] = await Promise.all([
+      this.loadCache(tripId),
+      this.trashedIds(tripId),
+    ]);
+    const ids = new Set(locations.map((loc) => loc.id));
+    const dangling = itinerary.filter(
+      (item) => !ids.has(item.locationId) && !trashed.has(item.locationId)
+    );
+    if (dangling.length === 0) {
+      return { itinerary, matches: [] as RepairMatch[], unresolved: [] };
+    }
+
+    const previous = await this.previousLocations(
+      tripId,
+      new Set(dangling.map((item) => item.locationId))
+    );
+
+    const matches: RepairMatch[] = [];
+    const unresolved: { itemId: string; locationId: string }[] = [];
+    for (const item of dangling) {
+      const old = previous.get(item.locationId);
+      const byName =
+        old &&
+        locations.filter(
+          (loc) => normalizeName(loc.name) === normalizeName(old.name)
+        );
+      const byCoordinates =
+        old &&
+        hasCoordinates(old) &&
+        locations
+          .filter(
+            (loc) =>
+              hasCoordinates(loc) && haversineKm(loc, old) <= SAME_PLACE_KM
+          )
+          .sort((a, b) => haversineKm(a, old) - haversineKm(b, old));
+
+      // A name shared by several places is ambiguous
+      if (byName && byName.length === 1) {
+        matches.push({
+          itemId: item.id,
+          from: item.locationId,
+          to: byName[0].id,
+          by: "name",
+        });
+      } else if (byCoordinates && byCoordinates.length > 0) {
+        matches.push({
+          itemId: item.id,
+          from: item.locationId,
+          to: byCoordinates[0].id,
+          by: "coordinates",
+        });
+      } else {
+        unresolved.push({ itemId: item.id, locationId: item.locationId });
+      }
+    }
+
+    return { itinerary, matches, unresolved };
+  }
+
+  private static async loadCache(tripId: string) {
+    const [{ data: loc, error: locError }, { data: itin, error: itinError }] =
+      await Promise.all([
+        supabase
+          .from("cached_locations")
+          .select("data")
+          .eq("trip_id", tripId)
+          .maybeSingle(),
+        supabase
+          .from("cached_itineraries")
+          .select("data")
+          .eq("trip_id", tripId)
+          .maybeSingle(),
+      ]);
+    if (locError || itinError) throw new Error("Failed to read trip cache");
+
+    return {
+      locations: (loc?.data as Location[]) || [],
+      itinerary: (itin?.data as ItineraryItem[]) || [],
+    };
+  }
+
+  private static async trashedIds(tripId: string) {
+    const { data, error } = await supabase
+      .from("trashed_locations")
+      .select("location_id")
+      .eq("trip_id", tripId);
+
+    if (error) throw new Error("Failed to read trash");
+    return new Set((data || []).map((row) => row.location_id as string));
+  }
+
+  // Latest known version of each location ID, from recent trip versions
+  private static async previousLocations(tripId: string, ids: Set<string>) {
+    const { data, error } = await supabase
+      .from("trip_versions")
+      .select("locations")
+      .eq("trip_id", tripId)
+      .order("id", { ascending: false })
+      .limit(HISTORY_DEPTH);
+
+    if (error) throw new Error("Failed to read trip history");
+
+    const found = new Map<string, Location>();
+    for (const version of data || []) {
+      for (const loc of (version.locations as Location[]) || []) {
+        if (ids.has(loc.id) && !found.has(loc.id)) found.set(loc.id, loc);
+      }
+    }
+    return found;
+  }
+
+  // Dates of the trip without items, or (without trip dates) missing
+  // numbers between "Day 1" and the last numbered day
+  private static findEmptyDays(
+    itinerary: ItineraryItem[],
+    startDate: string | null,
+    endDate: string | null
+  ) {
+    if (startDate && endDate) {
+      const used = new Set(
+        itinerary.map((item) => itemDate(item, startDate)).filter(Boolean)
+      );
+      return dateRange(startDate, endDate)
+        .map((date, i) => ({ day: `Day ${i + 1}`, date }))
+        .filter(({ date }) => !used.has(date));
+    }
+
+    const numbers = new Set(
+      itinerary
+        .map((item) => dayIndex(item.day, startDate))
+        .filter((index): index is number => index !== null)
+    );
+    const last = Math.max(-1, ...Array.from(numbers));
+    const empty: { day: string; date: string | null }[] = [];
+    for (let i = 0; i < last; i++) {
+      if (!numbers.has(i)) empty.push({ day: `Day ${i + 1}`, date: null });
+    }
+    return empty;
+  }
+}
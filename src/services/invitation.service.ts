@@ -0,0 +1,343 @@
+import crypto from "crypto";
+import { supabaseAdmin as supabase } from "./supabase";
+import { CollaboratorService } from "./collaboratorService";
+import { CONFIG } from "../config";
+import { CollaboratorRole } from "../types";
+
+export type InvitationStatus = "pending" | "accepted" | "declined" | "expired";
+
+// An email invited to a trip. Access is only granted once the invitee
+// accepts (signed in with that email).
+export interface Invitation {
+  id: string;
+  trip_id: string;
+  email: string;
+  role: CollaboratorRole;
+  status: InvitationStatus;
+  invited_by: string | null;
+  expires_at: string;
+  responded_at: string | null;
+  sent_count: number;
+  last_sent_at: string;
+  created_at: string;
+}
+
+// How the invitee refers to an invitation: the signed token from the link,
+// or its ID when answering in the app
+export type InvitationRef = { token: string } | { invitationId: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InvitationService {
+  /**
+   * Invite an email to a trip. Inviting the same email again renews the
+   * invitation (new role, expiry and link) unless it was accepted.
+   */
+  static async create(
+    tripId: string,
+    email: string,
+    role: CollaboratorRole,
+    invitedBy: string | null
+  ) {
+    const normalizedEmail = email.toLowerCase().trim();
+    if (await CollaboratorService.getCollaborator(tripId, normalizedEmail)) {
+      throw new Error("Already a collaborator");
+    }
+
+    const { data, error } = await supabase
+      .from("trip_invitations")
+      .upsert(
+        {
+          trip_id: tripId,
+          email: normalizedEmail,
+          role,
+          status: "pending",
+          invited_by: invitedBy,
+          expires_at: this.newExpiry(),
+          responded_at: null,
+          sent_count: 1,
+          last_sent_at: new Date().toISOString(),
+        },
+        { onConflict: "trip_id,email" }
+      )
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating invitation:", error);
+      throw new Error("Failed to create invitation");
+    }
+    return this.withLink(data as Invitation);
+  }
+
+  /**
+   * Invitations of a trip (newest first), optionally of one status.
+   */
+  static async list(
+    tripId: string,
+    status?: InvitationStatus
+  ): Promise<Invitation[]> {
+    await this.expireOverdue({ tripId });
+
+    let query = supabase
+      .from("trip_invitations")
+      .select("*")
+      .eq("trip_id", tripId)
+      .order("created_at", { ascending: false });
+    if (status) query = query.eq("status", status);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error listing invitations:", error);
+      throw new Error("Failed to list invitations");
+    }
+    return data || [];
+  }
+
+  /**
+   * Get one invitation of a trip.
+   */
+  static async get(tripId: string, invitationId: string): Promise<Invitation> {
+    const { data, error } = await supabase
+      .from("trip_invitations")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("id", invitationId)
+      .maybeSingle();
+
+    // 22P02: not a valid UUID
+    if (error && error.code !== "22P02") {
+      throw new Error("Failed to fetch invitation");
+    }
+    if (!data) throw new Error("Invitation not found");
+    return data as Invitation;
+  }
+
+  /**
+   * Send a pending or expired invitation again with a fresh expiry. Links
+   * sent before stop working.
+   */
+  static async resend(tripId: string, invitationId: string) {
+    const current = await this.get(tripId, invitationId);
+    if (current.status === "accepted" || current.status === "declined") {
+      throw new Error(`Invitation already ${current.status}`);
+    }
+
+    const { data, error } = await supabase
+      .from("trip_invitations")
+      .update({
+        status: "pending",
+        expires_at: this.newExpiry(),
+        sent_count: current.sent_count + 1,
+        last_sent_at: new Date().toISOString(),
+      })
+      .eq("id", invitationId)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error resending invitation:", error);
+      throw new Error("Failed to resend invitation");
+    }
+    return this.withLink(data as Invitation);
+  }
+
+  /**
+   * Withdraw an invitation (its link stops working).
+   */
+  static async revoke(tripId: string, invitationId: string) {
+    await this.get(tripId, invitationId);
+    const { error } = await supabase
+      .from("trip_invitations")
+      .delete()
+      .eq("trip_id", tripId)
+      .eq("id", invitationId);
+
+    if (error) throw new Error("Failed to revoke invitation");
+  }
+
+  /**
+   * Withdraw any invitation of an email to a trip (e.g. when removing the
+   * collaborator, so an old link can't bring them back).
+   */
+  static async revokeForEmail(tripId: string, email: string) {
+    const { error } = await supabase
+      .from("trip_invitations")
+      .delete()
+      .eq("trip_id", tripId)
+      .eq("email", email.toLowerCase().trim())
+      .neq("status", "accepted");
+
+    if (error) throw new Error("Failed to revoke invitation");
+  }
+
+  /**
+   * Pending invitations to an email, with the trip name and who invited.
+   */
+  static async listForEmail(email: string) {
+    const normalizedEmail = email.toLowerCase().trim();
+    await this.expireOverdue({ email: normalizedEmail });
+
+    const { data: invitations, error } = await supabase
+      .from("trip_invitations")
+      .select("id, trip_id, role, invited_by, expires_at, created_at")
+      .eq("email", normalizedEmail)
+      .eq("status", "pending");
+
+    if (error) throw new Error("Failed to fetch invitations");
+    if (!invitations || invitations.length === 0) return [];
+
+    const [{ data: trips }, { data: inviters }] = await Promise.all([
+      supabase
+        .from("trips")
+        .select("id, name, start_date, end_date")
+        .in(
+          "id",
+          invitations.map((i) => i.trip_id)
+        ),
+      supabase
+        .from("profiles")
+        .select("id, email")
+        .in("id", invitations.map((i) => i.invited_by).filter(Boolean)),
+    ]);
+    const tripsById = new Map((trips || []).map((t) => [t.id, t]));
+    const inviterEmails = new Map((inviters || []).map((p) => [p.id, p.email]));
+
+    return invitations.map((invitation) => ({
+      ...invitation,
+      trip: tripsById.get(invitation.trip_id) || null,
+      invited_by_email: inviterEmails.get(invitation.invited_by) || null,
+    }));
+  }
+
+  /**
+   * Accept or decline an invitation as the signed-in user, whose email must
+   * be the invited one. Accepting adds them as a collaborator with the
+   * invited role.
+   */
+  static async respond(
+    userEmail: string,
+    ref: InvitationRef,
+    accept: boolean
+  ): Promise<Invitation> {
+    const invitation = await this.resolve(ref);
+
+    if (invitation.email !== userEmail.toLowerCase().trim()) {
+      throw new Error("Invitation is for another email");
+    }
+    const overdue = new Date(invitation.expires_at).getTime() < Date.now();
+    if (
+      invitation.status === "expired" ||
+      (overdue && invitation.status === "pending")
+    ) {
+      await this.expireOverdue({ email: invitation.email });
+      throw new Error("Invitation expired");
+    }
+    if (invitation.status !== "pending") {
+      throw new Error(`Invitation already ${invitation.status}`);
+    }
+
+    if (accept) {
+      await CollaboratorService.addCollaborator(
+        invitation.trip_id,
+        invitation.email,
+        invitation.role
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("trip_invitations")
+      .update({
+        status: accept ? "accepted" : "declined",
+        responded_at: new Date().toISOString(),
+      })
+      .eq("id", invitation.id)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error answering invitation:", error);
+      throw new Error("Failed to answer invitation");
+    }
+    return data as Invitation;
+  }
+
+  // Find the invitation a token or ID refers to
+  private static async resolve(ref: InvitationRef): Promise<Invitation> {
+    const id = "token" in ref ? ref.token.split(".")[0] : ref.invitationId;
+
+    const { data, error } = await supabase
+      .from("trip_invitations")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error && error.code !== "22P02") {
+      throw new Error("Failed to fetch invitation");
+    }
+    if (!data) throw new Error("Invitation not found");
+
+    const invitation = data as Invitation;
+    if ("token" in ref && !this.verify(ref.token, invitation)) {
+      throw new Error("Invalid invitation token");
+    }
+    return invitation;
+  }
+
+  // Mark pending invitations past their expiry as expired
+  private static async expireOverdue(filter: {
+    tripId?: string;
+    email?: string;
+  }) {
+    let query = supabase
+      .from("trip_invitations")
+      .update({ status: "expired" })
+      .eq("status", "pending")
+      .lt("expires_at", new Date().toISOString());
+    if (filter.tripId) query = query.eq("trip_id", filter.tripId);
+    if (filter.email) query = query.eq("email", filter.email);
+
+    const { error } = await query;
+    if (error) console.warn("[Invitations] Failed to expire:", error.message);
+  }
+
+  private static newExpiry() {
+    return new Date(
+      Date.now() + CONFIG.INVITES.TTL_DAYS * DAY_MS
+    ).toISOString();
+  }
+
+  // Token: "<invitation id>.<signature>". The signature covers the email and
+  // expiry, so a resent invitation invalidates the previous link.
+  private static sign(invitation: Invitation) {
+    if (!CONFIG.INVITES.SECRET) throw new Error("Invitation secret not set");
+    return crypto
+      .createHmac("sha256", CONFIG.INVITES.SECRET)
+      .update(
+        `${invitation.id}.${invitation.email}.${new Date(
+          invitation.expires_at
+        ).getTime()}`
+      )
+      .digest("base64url");
+  }
+
+  private static verify(token: string, invitation: Invitation) {
+    const given = Buffer.from(token.split(".")[1] || "");
+    const expected = Buffer.from(this.sign(invitation));
+    return (
+      given.length === expected.length &&
+      crypto.timingSafeEqual(given, expected)
+    );
+  }
+
+  private static withLink(invitation: Invitation) {
+    const token = `${invitation.id}.${this.sign(invitation)}`;
+    return {
+      invitation,
+      token,
+      inviteUrl: `${CONFIG.INVITES.ACCEPT_URL}?token=${encodeURIComponent(
+        token
+      )}`,
+    };
+  }
+}
@@ -0,0 +1,465 @@
+import {
+  getItineraryFromDb,
+  getLocationsFromDb,
+  updateItineraryInSheet,
+} from "./syncService";
+import { TripService } from "./trip.service";
+import { ItineraryItem, Location, MutationContext } from "../types";
+import {
+  checkSchedule,
+  itemDate,
+  parseTime,
+  sortItinerary,
+} from "../utils/schedule";
+import { dateRange, dayIndex, UNSCHEDULED_DAY } from "../utils/tripDays";
+import {
+  estimateTravel,
+  fastestMinutes,
+  TravelEstimate,
+} from "../utils/travel";
+import {
+  hasCoordinates,
+  haversineKm,
+  optimizeOrder,
+  pathDistanceKm,
+  Point,
+} from "../utils/route";
+
+export interface OptimizeDayOptions {
+  day: string; // Day label or YYYY-MM-DD
+  pinFirst?: boolean; // Keep the current first stop first
+  pinLast?: boolean; // Keep the current last stop last
+  startLocationId?: string; // Where the day starts (e.g. the hotel)
+  endLocationId?: string; // Where the day ends
+  apply?: boolean; // Write the new order through updateItineraryInSheet
+}
+
+export interface GenerateOptions {
+  startDate?: string; // Defaults to the trip dates
+  endDate?: string;
+  days?: { date: string; city?: string }[]; // Per-day city assignments
+  maxStopsPerDay?: number;
+  mealsPerDay?: number; // Food places per day at most
+  mustInclude?: string[]; // Location IDs
+  apply?: boolean; // Replace the itinerary of the drafted dates
+}
+
+// Travel from the previous stop of the same day
+export interface TravelLeg extends TravelEstimate {
+  fromItemId: string;
+  availableMinutes: number | null; // Gap between two timed stops
+  unrealistic: boolean; // Even the fastest mode doesn't fit the gap
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const cityKey = (city: string) => (city || "").trim().toLowerCase();
+
+const DEFAULT_MAX_STOPS = 5;
+const DEFAULT_MEALS = 2;
+// Drafts longer than this are almost certainly a date typo
+const MAX_DRAFT_DAYS = 60;
+const MEAL_TYPES =
+  /restaurant|food|cafe|café|ramen|sushi|izakaya|bakery|dessert|udon|soba|yakiniku|okonomiyaki|takoyaki|market/i;
+
+export class ItineraryPlanner {
+  /**
+   * Propose an order for one day's stops with the shortest straight-line
+   * path. Pinned first/last stops, timed items (the day is ordered by time)
+   * and stops without coordinates keep their place.
+   */
+  static async optimizeDay(
+    tripId: string,
+    options: OptimizeDayOptions,
+    ctx: MutationContext
+  ) {
+    const [{ startDate }, itinerary, locations] = await Promise.all([
+      TripService.getSettings(tripId),
+      getItineraryFromDb(tripId),
+      getLocationsFromDb(tripId),
+    ]);
+    const locationsById = new Map(locations.map((loc) => [loc.id, loc]));
+    const pointOf = (locationId?: string) => {
+      if (!locationId) return null;
+      const loc = locationsById.get(locationId);
+      if (!loc) throw new Error("Location not found");
+      return this.toPoint(loc);
+    };
+
+    const inDay = (item: ItineraryItem) =>
+      item.day === options.day || itemDate(item, startDate) === options.day;
+    const stops = sortItinerary(itinerary, startDate).filter(inDay);
+    if (stops.length === 0) throw new Error("Day not found in itinerary");
+
+    const points: (Point | null)[] = stops.map((item) =>
+      this.toPoint(locationsById.get(item.locationId))
+    );
+    const anchored = new Set<number>();
+    stops.forEach((item, i) => {
+      if (item.startTime || !points[i]) anchored.add(i);
+    });
+    if (options.pinFirst) anchored.add(0);
+    if (options.pinLast) anchored.add(stops.length - 1);
+
+    const start = pointOf(options.startLocationId);
+    const end = pointOf(options.endLocationId);
+    const order = optimizeOrder(points, anchored, start, end);
+
+    // Reuse the day's existing order values so other days are untouched
+    const orderValues = stops.map((item) => item.order).sort((a, b) => a - b);
+    const proposed = order.map((index, position) => ({
+      ...stops[index],
+      order: orderValues[position],
+    }));
+
+    const distance = (items: ItineraryItem[]) =>
+      round2(
+        pathDistanceKm([
+          start,
+          ...items.map((item) =>
+            this.toPoint(locationsById.get(item.locationId))
+          ),
+          end,
+        ])
+      );
+    const before = distance(stops);
+    const after = distance(proposed);
+
+    let applied = false;
+    if (options.apply && after < before) {
+      const proposedById = new Map(proposed.map((item) => [item.id, item]));
+      await updateItineraryInSheet(
+        tripId,
+        itinerary.map((item) => proposedById.get(item.id) || item),
+        ctx
+      );
+      applied = true;
+    }
+
+    return {
+      day: options.day,
+      before: { distanceKm: before, items: stops },
+      after: { distanceKm: after, items: proposed },
+      savedKm: round2(before - after),
+      applied,
+    };
+  }
+
+  /**
+   * Draft an itinerary from the location pool: each day gets a city (given
+   * or spread by how many places each city has), nearby places of a city
+   * are grouped into its days within the stop and meal limits, and every
+   * day is ordered for the shortest path. Must-include places are always
+   * placed, even over the limits. Nothing is written unless `apply` is set.
+   */
+  static async generateDraft(
+    tripId: string,
+    options: GenerateOptions,
+    ctx: MutationContext
+  ) {
+    const [settings, locations, itinerary] = await Promise.all([
+      TripService.getSettings(tripId),
+      getLocationsFromDb(tripId),
+      getItineraryFromDb(tripId),
+    ]);
+    const maxStops = options.maxStopsPerDay ?? DEFAULT_MAX_STOPS;
+    const maxMeals = options.mealsPerDay ?? DEFAULT_MEALS;
+    const must = new Set(options.mustInclude || []);
+    const locationsById = new Map(locations.map((loc) => [loc.id, loc]));
+
+    const missing = Array.from(must).filter((id) => !locationsById.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Location not found: ${missing.join(", ")}`);
+    }
+
+    // 1. Days and their cities
+    let days: { date: string; city?: string }[];
+    if (options.days?.length) {
+      days = options.days.slice().sort((a, b) => a.date.localeCompare(b.date));
+    } else {
+      const startDate = options.startDate || settings.startDate;
+      const endDate = options.endDate || settings.endDate;
+      if (!startDate || !endDate) throw new Error("Trip dates are not set");
+      days = dateRange(startDate, endDate).map((date) => ({ date }));
+    }
+    if (days.length === 0 || days.length > MAX_DRAFT_DAYS) {
+      throw new Error(`A draft covers 1 to ${MAX_DRAFT_DAYS} days`);
+    }
+    const cities = this.assignCities(days, locations);
+
+    // Items on other dates stay; their places aren't drafted a second time
+    const draftDates = new Set(days.map((day) => day.date));
+    const kept = itinerary.filter(
+      (item) => !draftDates.has(itemDate(item, settings.startDate) || "")
+    );
+    const booked = new Set(kept.map((item) => item.locationId));
+
+    const plan = days.map((day, i) => ({
+      date: day.date,
+      city: cities[i],
+      stops: [] as Location[],
+      meals: 0,
+    }));
+    const warnings: string[] = [];
+    const unscheduled: string[] = [];
+
+    // 2. Group each city's places into its days around spread-out seeds
+    const daysByCity = new Map<string, number[]>();
+    plan.forEach((day, i) => {
+      const key = cityKey(day.city);
+      if (!daysByCity.has(key)) daysByCity.set(key, []);
+      daysByCity.get(key)!.push(i);
+    });
+
+    for (const loc of locations) {
+      if (must.has(loc.id) && booked.has(loc.id)) {
+        warnings.push(`${loc.name} is already on another day`);
+      } else if (must.has(loc.id) && !daysByCity.has(cityKey(loc.city))) {
+        warnings.push(`${loc.name} is in ${loc.city}, which has no day`);
+        unscheduled.push(loc.id);
+      }
+    }
+
+    daysByCity.forEach((dayIndexes, key) => {
+      const pool = locations.filter(
+        (loc) => cityKey(loc.city) === key && !booked.has(loc.id)
+      );
+      const seeds = this.spreadSeeds(
+        pool.filter((loc) => hasCoordinates(loc)),
+        dayIndexes.length
+      );
+      const seedDistance = (loc: Location, k: number) =>
+        seeds[k] && hasCoordinates(loc) ? haversineKm(loc, seeds[k]!) : 0;
+      const nearestSeed = (loc: Location) =>
+        Math.min(...seeds.map((_, k) => seedDistance(loc, k)), Infinity);
+
+      // Must-include first, then the most central places
+      const candidates = pool.slice().sort((a, b) => {
+        const mustFirst = Number(must.has(b.id)) - Number(must.has(a.id));
+        return mustFirst || nearestSeed(a) - nearestSeed(b);
+      });
+
+      for (const loc of candidates) {
+        const isMeal = MEAL_TYPES.test(loc.type || "");
+        const fits = (k: number) =>
+          plan[k].stops.length < maxStops &&
+          (!isMeal || plan[k].meals < maxMeals);
+        const ranked = dayIndexes
+          .map((dayIdx, k) => ({ dayIdx, k }))
+          .sort(
+            (a, b) =>
+              seedDistance(loc, a.k) - seedDistance(loc, b.k) ||
+              plan[a.dayIdx].stops.length - plan[b.dayIdx].stops.length
+          );
+
+        let target = ranked.find(({ dayIdx }) => fits(dayIdx))?.dayIdx;
+        if (target === undefined && must.has(loc.id)) {
+          target = ranked[0].dayIdx;
+          warnings.push(
+            `${loc.name} goes over the limits of ${plan[target].date}`
+          );
+        }
+        if (target === undefined) {
+          unscheduled.push(loc.id);
+          continue;
+        }
+
+        plan[target].stops.push(loc);
+        if (isMeal) plan[target].meals += 1;
+      }
+    });
+
+    // 3. Order each day for the shortest path
+    const dayLabel = (date: string) => {
+      const index = settings.startDate
+        ? dayIndex(date, settings.startDate)
+        : null;
+      return index !== null && index >= 0 ? `Day ${index + 1}` : date;
+    };
+
+    const draftDays = plan.map((day) => {
+      const points = day.stops.map((loc) => this.toPoint(loc));
+      const order = optimizeOrder(points, new Set());
+      const stops = order.map((i) => day.stops[i]);
+      const items = stops.map((loc, i) => ({
+        day: dayLabel(day.date),
+        date: day.date,
+        locationId: loc.id,
+        order: i + 1,
+        note: "",
+      }));
+
+      return {
+        date: day.date,
+        day: dayLabel(day.date),
+        city: day.city,
+        distanceKm: round2(
+          pathDistanceKm(stops.map((loc) => this.toPoint(loc)))
+        ),
+        items,
+      };
+    });
+    const items = draftDays.flatMap((day) => day.items);
+
+    let applied = false;
+    if (options.apply) {
+      const problem = checkSchedule(
+        [...kept, ...items],
+        settings.startDate,
+        settings.endDate
+      );
+      if (problem) throw new Error(problem.error);
+      await updateItineraryInSheet(tripId, [...kept, ...items], ctx);
+      applied = true;
+    }
+
+    return { days: draftDays, items, unscheduled, warnings, applied };
+  }
+
+  /**
+   * Annotate items (in chronological order) with distance and estimated
+   * travel time from the previous stop of their day, plus per-day totals.
+   * Stops without coordinates and unscheduled items get `travel: null`.
+   */
+  static async annotateTravel<T extends ItineraryItem>(
+    tripId: string,
+    items: T[]
+  ) {
+    const [{ startDate }, locations] = await Promise.all([
+      TripService.getSettings(tripId),
+      getLocationsFromDb(tripId),
+    ]);
+    const locationsById = new Map(locations.map((loc) => [loc.id, loc]));
+
+    const groups = new Map<string, T[]>();
+    for (const item of sortItinerary(items, startDate)) {
+      const key = itemDate(item, startDate) || item.day;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(item);
+    }
+
+    const annotated: (T & { travel: TravelLeg | null })[] = [];
+    const days = Array.from(groups.values()).map((dayItems) => {
+      const totals = {
+        day: dayItems[0].day,
+        date: itemDate(dayItems[0], startDate),
+        stops: dayItems.length,
+        distanceKm: 0,
+        travelMinutes: 0, // With the suggested mode of each leg
+        unrealistic: 0,
+      };
+
+      let previous: T | null = null;
+      for (const item of dayItems) {
+        const point = this.toPoint(locationsById.get(item.locationId));
+        const from = previous
+          ? this.toPoint(locationsById.get(previous.locationId))
+          : null;
+
+        let travel: TravelLeg | null = null;
+        if (previous && point && from && item.day !== UNSCHEDULED_DAY) {
+          const estimate = estimateTravel(haversineKm(from, point));
+          const prevStart = parseTime(previous.startTime);
+          const start = parseTime(item.startTime);
+          const available =
+            prevStart !== null && start !== null
+              ? start - prevStart - (previous.durationMinutes || 0)
+              : null;
+
+          travel = {
+            ...estimate,
+            fromItemId: previous.id,
+            availableMinutes: available,
+            unrealistic:
+              available !== null && available < fastestMinutes(estimate),
+          };
+          totals.distanceKm += estimate.distanceKm;
+          totals.travelMinutes += estimate.minutes[estimate.mode];
+          if (travel.unrealistic) totals.unrealistic += 1;
+        }
+
+        annotated.push({ ...item, travel });
+        if (point) previous = item;
+      }
+
+      return { ...totals, distanceKm: round2(totals.distanceKm) };
+    });
+
+    return { items: annotated, days };
+  }
+
+  // Fill in cities for days without one: cities get consecutive days in
+  // proportion to how many places they have (in sheet order)
+  private static assignCities(
+    days: { date: string; city?: string }[],
+    locations: Location[]
+  ): string[] {
+    const open = days.filter((day) => !day.city?.trim()).length;
+    const counts = new Map<string, { city: string; count: number }>();
+    for (const loc of locations) {
+      const key = cityKey(loc.city);
+      if (!key) continue;
+      if (!counts.has(key)) counts.set(key, { city: loc.city, count: 0 });
+      counts.get(key)!.count += 1;
+    }
+
+    // Largest remainder, biggest cities first when days are short
+    const ranked = Array.from(counts.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, open);
+    const total = ranked.reduce((sum, c) => sum + c.count, 0);
+    const shares = ranked.map((c) => {
+      const exact = total ? (c.count / total) * open : 0;
+      return { ...c, days: Math.max(1, Math.floor(exact)), rest: exact % 1 };
+    });
+    let spare = open - shares.reduce((sum, c) => sum + c.days, 0);
+    for (const share of shares.slice().sort((a, b) => b.rest - a.rest)) {
+      if (spare <= 0) break;
+      share.days += 1;
+      spare -= 1;
+    }
+    while (spare < 0) {
+      const biggest = shares.reduce((a, b) => (b.days > a.days ? b : a));
+      biggest.days -= 1;
+      spare += 1;
+    }
+
+    // Back in sheet order, one block of days per city
+    const order = Array.from(counts.keys());
+    const queue = shares
+      .sort(
+        (a, b) =>
+          order.indexOf(cityKey(a.city)) - order.indexOf(cityKey(b.city))
+      )
+      .flatMap((share) => Array(share.days).fill(share.city) as string[]);
+
+    // Days left over when there are no places at all stay without a city
+    return days.map((day) => day.city?.trim() || queue.shift() || "");
+  }
+
+  // One seed per day: start from the first place, then repeatedly take the
+  // place furthest from the seeds so far
+  private static spreadSeeds(located: Location[], count: number) {
+    const seeds: (Point | null)[] = [];
+    if (located.length > 0) seeds.push(this.toPoint(located[0]));
+    while (seeds.length < count && seeds.length < located.length) {
+      let best: Location | null = null;
+      let bestDistance = -1;
+      for (const loc of located) {
+        const distance = Math.min(
+          ...seeds.map((seed) => haversineKm(loc, seed!))
+        );
+        if (distance > bestDistance) {
+          best = loc;
+          bestDistance = distance;
+        }
+      }
+      seeds.push(this.toPoint(best!));
+    }
+    while (seeds.length < count) seeds.push(null);
+    return seeds;
+  }
+
+  private static toPoint(loc: Location | undefined): Point | null {
+    return loc && hasCoordinates(loc) ? { lat: loc.lat, lng: loc.lng } : null;
+  }
+}
@@ -0,0 +1,297 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { supabaseAdmin as supabase } from "./supabase";
+import { CONFIG } from "../config";
+import { TripLanguage } from "../types";
+import { MAIL_TEMPLATES, MailTemplate } from "../data/mailTemplates";
+
+// Give up on a message after this many failed sends
+const MAX_ATTEMPTS = 5;
+// Retry delay doubles per attempt: 1m, 2m, 4m, 8m
+const BACKOFF_BASE_MS = 60 * 1000;
+// A message stuck in "sending" this long is assumed to belong to a dead worker
+const STALE_SENDING_MS = 5 * 60 * 1000;
+// Rough upper bound of one SMTP send, used to stop claiming work we can't
+// finish inside the time budget
+const SEND_ESTIMATE_MS = 1000;
+
+export type MailStatus = "queued" | "sending" | "sent" | "failed";
+
+export interface MailMessage {
+  to: string;
+  template: MailTemplate;
+  language: TripLanguage;
+  data: Record<string, string>; // Placeholder values
+  tripId?: string | null;
+}
+
+interface OutboxMail {
+  id: number;
+  to_email: string;
+  template: string;
+  subject: string;
+  text_body: string;
+  html_body: string;
+  attempts: number;
+}
+
+type Deliver = (mail: {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}) => Promise<void>;
+
+// Transport from MAIL_TRANSPORT, created on first use
+let deliver: Deliver | null = null;
+
+function getTransport(): Deliver {
+  if (deliver) return deliver;
+  const from = CONFIG.MAIL.FROM;
+
+  if (CONFIG.MAIL.TRANSPORT === "smtp") {
+    const { HOST, PORT, SECURE, USER, PASS, TIMEOUT_MS } = CONFIG.MAIL.SMTP;
+    if (!HOST) throw new Error("SMTP_HOST not set");
+    const transporter = nodemailer.createTransport({
+      host: HOST,
+      port: PORT,
+      secure: SECURE,
+      auth: USER ? { user: USER, pass: PASS } : undefined,
+      connectionTimeout: TIMEOUT_MS,
+      greetingTimeout: TIMEOUT_MS,
+      socketTimeout: TIMEOUT_MS,
+    });
+    deliver = async (mail) => {
+      await transporter.sendMail({ from, ...mail });
+    };
+  } else if (CONFIG.MAIL.TRANSPORT === "file") {
+    // Complete messages (.eml) for checking templates without a mail server
+    const transporter = nodemailer.createTransport({
+      streamTransport: true,
+      buffer: true,
+    });
+    deliver = async (mail) => {
+      const info = await transporter.sendMail({ from, ...mail });
+      fs.mkdirSync(CONFIG.MAIL.FILE_DIR, { recursive: true });
+      const name = `${Date.now()}-${mail.to.replace(
+        /[^a-z0-9.@-]/gi,
+        "_"
+      )}.eml`;
+      fs.writeFileSync(
+        path.join(CONFIG.MAIL.FILE_DIR, name),
+        info.message as Buffer
+      );
+    };
+  } else if (CONFIG.MAIL.TRANSPORT === "console") {
+    // Links can carry secrets (invitation tokens): logged without them
+    deliver = async (mail) => {
+      console.log(
+        `[Mail] To: ${mail.to}\n[Mail] Subject: ${mail.subject}\n${redactLinks(
+          mail.text
+        )}`
+      );
+    };
+  } else {
+    // Not cached: retried like any failed send
+    throw new Error(
+      CONFIG.MAIL.TRANSPORT
+        ? `Unknown MAIL_TRANSPORT "${CONFIG.MAIL.TRANSPORT}"`
+        : "MAIL_TRANSPORT not set"
+    );
+  }
+  return deliver;
+}
+
+// Drop query strings and fragments of URLs (tokens must not reach the logs)
+const redactLinks = (s: string) =>
+  s.replace(/(https?:\/\/[^\s?#]+)[?#]\S*/g, "$1?[redacted]");
+
+const escapeHtml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export class MailService {
+  /**
+   * Render a template and send it. Every message is kept in the outbox with
+   * its attempts; a failed send is retried with backoff by the job tick.
+   * Never throws for delivery problems: callers carry on with their write.
+   */
+  static async send(message: MailMessage) {
+    const rendered = this.render(message);
+
+    const { data, error } = await supabase
+      .from("mail_outbox")
+      .insert({
+        trip_id: message.tripId || null,
+        to_email: message.to,
+        template: message.template,
+        language: message.language,
+        subject: rendered.subject,
+        text_body: rendered.text,
+        html_body: rendered.html,
+        status: "sending",
+      })
+      .select("id, to_email, template, subject, text_body, html_body, attempts")
+      .single();
+
+    if (error || !data) {
+      console.error("[Mail] Failed to record message:", error);
+      return { id: null, status: "failed" as MailStatus };
+    }
+
+    const status = await this.attempt(data as OutboxMail);
+    return { id: data.id as number, status };
+  }
+
+  /**
+   * Worker: retry due messages until the time budget is spent. Claims are
+   * conditional, so concurrent ticks don't send a message twice.
+   */
+  static async process(options: { timeBudgetMs: number }) {
+    const deadline = Date.now() + options.timeBudgetMs;
+    let sent = 0;
+    let failed = 0;
+
+    while (Date.now() + SEND_ESTIMATE_MS < deadline) {
+      const batchSize = Math.max(
+        1,
+        Math.min(10, Math.floor((deadline - Date.now()) / SEND_ESTIMATE_MS))
+      );
+      const mails = await this.claim(batchSize);
+      if (mails.length === 0) break;
+
+      for (const mail of mails) {
+        if ((await this.attempt(mail)) === "sent") sent++;
+        else failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * Recent messages of a trip with their delivery state (newest first).
+   */
+  static async list(tripId: string, limit = 50) {
+    const { data, error } = await supabase
+      .from("mail_outbox")
+      .select(
+        "id, to_email, template, language, subject, status, attempts, last_error, sent_at, created_at"
+      )
+      .eq("trip_id", tripId)
+      .order("id", { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error("Failed to list sent mail");
+    return data || [];
+  }
+
+  // Fill a template ({{name}} placeholders). The HTML version escapes the
+  // values and links URLs.
+  private static render(message: MailMessage) {
+    const template = MAIL_TEMPLATES[message.template][message.language];
+    const fill = (s: string) =>
+      s.replace(/\{\{(\w+)\}\}/g, (_, key) => message.data[key] ?? "");
+
+    const text = fill(template.text);
+    const html = text
+      .split(/\n{2,}/)
+      .map(
+        (paragraph) =>
+          `<p>${escapeHtml(paragraph)
+            .replace(
+              /https?:\/\/[^\s<]+/g,
+              (url) => `<a href="${url}">${url}</a>`
+            )
+            .replace(/\n/g, "<br>")}</p>`
+      )
+      .join("\n");
+
+    return { subject: fill(template.subject), text, html };
+  }
+
+  // One send, recorded as sent or scheduled for a retry
+  private static async attempt(mail: OutboxMail): Promise<MailStatus> {
+    const attempts = mail.attempts + 1;
+    try {
+      await getTransport()({
+        to: mail.to_email,
+        subject: mail.subject,
+        text: mail.text_body,
+        html: mail.html_body,
+      });
+    } catch (e: any) {
+      const giveUp = attempts >= MAX_ATTEMPTS;
+      const delay = BACKOFF_BASE_MS * Math.pow(2, attempts - 1);
+      console.warn(
+        `[Mail] Sending "${mail.template}" to ${
+          mail.to_email
+        } failed (attempt ${attempts}${giveUp ? ", giving up" : ""}):`,
+        e.message
+      );
+      await supabase
+        .from("mail_outbox")
+        .update({
+          status: giveUp ? "failed" : "queued",
+          attempts,
+          last_error: e.message || "Send failed",
+          next_attempt_at: new Date(Date.now() + delay).toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", mail.id);
+      return giveUp ? "failed" : "queued";
+    }
+
+    console.log(
+      `[Mail] Sent "${mail.template}" to ${mail.to_email} (attempt ${attempts})`
+    );
+    await supabase
+      .from("mail_outbox")
+      .update({
+        status: "sent",
+        attempts,
+        last_error: null,
+        sent_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", mail.id);
+    return "sent";
+  }
+
+  // Atomically move due messages to "sending"
+  private static async claim(limit: number) {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - STALE_SENDING_MS);
+
+    const { data: candidates, error } = await supabase
+      .from("mail_outbox")
+      .select("id, status, updated_at")
+      .or(
+        `status.eq.queued,and(status.eq.sending,updated_at.lt.${staleBefore.toISOString()})`
+      )
+      .lte("next_attempt_at", now.toISOString())
+      .order("next_attempt_at", { ascending: true })
+      .limit(limit);
+    if (error) throw new Error("Failed to fetch queued mail");
+
+    const claimed: OutboxMail[] = [];
+    for (const mail of candidates || []) {
+      // Conditional update: loses cleanly if another worker got there first
+      const { data } = await supabase
+        .from("mail_outbox")
+        .update({ status: "sending", updated_at: now.toISOString() })
+        .eq("id", mail.id)
+        .eq("status", mail.status)
+        .eq("updated_at", mail.updated_at)
+        .select(
+          "id, to_email, template, subject, text_body, html_body, attempts"
+        );
+      if (data && data.length > 0) claimed.push(data[0]);
+    }
+    return claimed;
+  }
+}
@@ -0,0 +1,95 @@
+import { MailService } from "./mail.service";
+import { CollaboratorService } from "./collaboratorService";
+import { TripService } from "./trip.service";
+import { CONFIG } from "../config";
+import { CollaboratorRole, Trip } from "../types";
+import { MAIL_LOCALES, ROLE_LABELS } from "../data/mailTemplates";
+
+// Emails about a trip, in the trip's language. Sending goes through the
+// MailService outbox, so a mail problem never fails the action itself.
+export class NotificationService {
+  /**
+   * Tell an invitee about their invitation and how to answer it.
+   */
+  static async invitation(
+    trip: Trip,
+    invitation: { email: string; role: CollaboratorRole; expires_at: string },
+    inviteUrl: string,
+    inviterEmail: string | null
+  ) {
+    const { language, timezone } = TripService.toSettings(trip);
+
+    return MailService.send({
+      to: invitation.email,
+      template: "invitation",
+      language,
+      tripId: trip.id,
+      data: {
+        inviter: inviterEmail || trip.name,
+        trip: trip.name,
+        role: ROLE_LABELS[language][invitation.role],
+        link: inviteUrl,
+        expires: new Intl.DateTimeFormat(MAIL_LOCALES[language], {
+          dateStyle: "long",
+          timeZone: timezone,
+        }).format(new Date(invitation.expires_at)),
+      },
+    });
+  }
+
+  /**
+   * Tell someone they no longer have access to a trip.
+   */
+  static async removal(trip: Trip, email: string, actorEmail: string | null) {
+    const { language } = TripService.toSettings(trip);
+    return MailService.send({
+      to: email,
+      template: "removal",
+      language,
+      tripId: trip.id,
+      data: { actor: actorEmail || trip.name, trip: trip.name },
+    });
+  }
+
+  /**
+   * Tell the owner and admins that a public link to the trip now exists.
+   */
+  static async shareLinkCreated(
+    trip: Trip,
+    slug: string,
+    actorEmail: string | null
+  ) {
+    const { language } = TripService.toSettings(trip);
+    let owner: { email: string | null } | null = null;
+    let collaborators: { email: string; role: CollaboratorRole }[] = [];
+    try {
+      [owner, collaborators] = await Promise.all([
+        CollaboratorService.getOwnerProfile(trip.owner_id),
+        CollaboratorService.listCollaborators(trip.id),
+      ]);
+    } catch (e: any) {
+      console.warn("[Mail] No recipients for share-link notice:", e.message);
+      return [];
+    }
+    const recipients = [
+      owner?.email,
+      ...collaborators.filter((c) => c.role === "admin").map((c) => c.email),
+    ].filter((email): email is string => !!email);
+
+    return Promise.all(
+      recipients.map((to) =>
+        MailService.send({
+          to,
+          template: "shareLink",
+          language,
+          tripId: trip.id,
+          data: {
+            actor: actorEmail || to,
+            trip: trip.name,
+            link: `${CONFIG.MAIL.SHARE_URL}/${slug}`,
+          },
+        })
+      )
+    );
+  }
+}
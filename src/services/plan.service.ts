@@ -0,0 +1,440 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { TripService } from "./trip.service";
+import { ExchangeRateService } from "./exchangeRate.service";
+import { ItineraryPlanner } from "./itineraryPlanner.service";
+import { ActivityService } from "./activity.service";
+import {
+  deleteSheetTab,
+  getItineraryFromDb,
+  getItineraryState,
+  getLocationsFromDb,
+  normalizeItineraryItem,
+  readItineraryTab,
+  updateItineraryInSheet,
+  writeItineraryTab,
+} from "./syncService";
+import { ConvertedPrice, ItineraryItem, MutationContext } from "../types";
+import { convertRange, parsePriceJpy } from "../utils/price";
+import { sortItinerary } from "../utils/schedule";
+
+// Named alternative to the active itinerary ("Rainy day", "Budget version").
+// Items are stored here and mirrored to their own sheet tab.
+export interface ItineraryPlan {
+  id: string;
+  trip_id: string;
+  name: string;
+  sheet_tab: string;
+  items: ItineraryItem[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Where a plan's items are copied or compared from: a plan ID, or "active"
+// for the trip's itinerary
+export const ACTIVE_PLAN = "active";
+
+export type PlanItemInput = Omit<ItineraryItem, "id" | "note"> & {
+  id?: string;
+  note?: string;
+};
+
+// Stops, distance and estimated cost of one plan
+export interface PlanSummary {
+  ref: string; // Plan ID or "active"
+  name: string;
+  stops: number;
+  days: number;
+  distanceKm: number; // Straight-line, between consecutive stops of a day
+  travelMinutes: number; // With the suggested mode of each leg
+  cost: {
+    minJpy: number;
+    maxJpy: number | null; // null if a price is open-ended
+    home: ConvertedPrice | null; // null without a rate for the home currency
+    unpriced: number; // Stops without a usable priceJpy
+  };
+}
+
+const TAB_PREFIX = "Plan - ";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export class PlanService {
+  /**
+   * Plans of a trip (oldest first).
+   */
+  static async list(tripId: string): Promise<ItineraryPlan[]> {
+    const { data, error } = await supabase
+      .from("itinerary_plans")
+      .select("*")
+      .eq("trip_id", tripId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error listing plans:", error);
+      throw new Error("Failed to list plans");
+    }
+    return data || [];
+  }
+
+  /**
+   * Get one plan of a trip.
+   */
+  static async get(tripId: string, planId: string): Promise<ItineraryPlan> {
+    const { data, error } = await supabase
+      .from("itinerary_plans")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("id", planId)
+      .maybeSingle();
+
+    // 22P02: not a valid UUID
+    if (error && error.code !== "22P02") {
+      throw new Error("Failed to fetch plan");
+    }
+    if (!data) throw new Error("Plan not found");
+    return data as ItineraryPlan;
+  }
+
+  /**
+   * Create a plan as a copy of the active itinerary or of another plan.
+   */
+  static async create(
+    tripId: string,
+    input: { name: string; from?: string },
+    ctx: MutationContext
+  ): Promise<ItineraryPlan> {
+    const { items } = await this.resolve(tripId, input.from || ACTIVE_PLAN);
+    return this.insert(tripId, input, items, ctx);
+  }
+
+  // Store a new plan with the given items and mirror it to its tab
+  private static async insert(
+    tripId: string,
+    input: { name: string; from?: string },
+    items: ItineraryItem[],
+    ctx: MutationContext
+  ): Promise<ItineraryPlan> {
+    const { data, error } = await supabase
+      .from("itinerary_plans")
+      .insert({
+        trip_id: tripId,
+        name: input.name,
+        sheet_tab: this.tabName(input.name),
+        items,
+        created_by: ctx.actorId,
+      })
+      .select("*")
+      .single();
+
+    // 23505: unique (trip_id, name)
+    if (error?.code === "23505") {
+      throw new Error("A plan with this name already exists");
+    }
+    if (error || !data) {
+      console.error("Error creating plan:", error);
+      throw new Error("Failed to create plan");
+    }
+
+    const copied = input.from && input.from !== ACTIVE_PLAN;
+    await ActivityService.record(tripId, ctx, {
+      type: copied ? "plan.clone" : "plan.create",
+      target: data.id,
+      summary: data.name,
+      after: { items: items.length, ...(copied && { from: input.from }) },
+    });
+    await this.mirrorToSheet(tripId, data.sheet_tab, items);
+    return data as ItineraryPlan;
+  }
+
+  /**
+   * Rename a plan and/or replace its items. Items without an ID get one.
+   */
+  static async update(
+    tripId: string,
+    planId: string,
+    input: { name?: string; items?: PlanItemInput[] },
+    ctx: MutationContext
+  ): Promise<ItineraryPlan> {
+    const current = await this.get(tripId, planId);
+    const { startDate } = await TripService.getSettings(tripId);
+
+    const columns: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (input.name !== undefined) {
+      columns.name = input.name;
+      columns.sheet_tab = this.tabName(input.name);
+    }
+    if (input.items !== undefined) {
+      columns.items = sortItinerary(
+        input.items.map((item) => normalizeItineraryItem(item, startDate)),
+        startDate
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("itinerary_plans")
+      .update(columns)
+      .eq("trip_id", tripId)
+      .eq("id", planId)
+      .select("*")
+      .single();
+
+    if (error?.code === "23505") {
+      throw new Error("A plan with this name already exists");
+    }
+    if (error || !data) {
+      console.error("Error updating plan:", error);
+      throw new Error("Failed to update plan");
+    }
+
+    const plan = data as ItineraryPlan;
+    await ActivityService.record(tripId, ctx, {
+      type: "plan.update",
+      target: planId,
+      summary: plan.name,
+      before: { name: current.name, items: current.items.length },
+      after: { name: plan.name, items: plan.items.length },
+    });
+    if (plan.sheet_tab !== current.sheet_tab) {
+      await this.removeSheet(tripId, current.sheet_tab);
+    }
+    await this.mirrorToSheet(tripId, plan.sheet_tab, plan.items);
+    return plan;
+  }
+
+  /**
+   * Delete a plan and its tab.
+   */
+  static async remove(tripId: string, planId: string, ctx: MutationContext) {
+    const plan = await this.get(tripId, planId);
+
+    const { error } = await supabase
+      .from("itinerary_plans")
+      .delete()
+      .eq("trip_id", tripId)
+      .eq("id", planId);
+
+    if (error) throw new Error("Failed to delete plan");
+    await ActivityService.record(tripId, ctx, {
+      type: "plan.delete",
+      target: planId,
+      summary: plan.name,
+      before: { items: plan.items.length },
+    });
+    await this.removeSheet(tripId, plan.sheet_tab);
+  }
+
+  /**
+   * Take a plan's items from its tab (edits made in the sheet). A missing
+   * tab is recreated from the stored items.
+   */
+  static async syncFromSheet(
+    tripId: string,
+    planId: string
+  ): Promise<ItineraryPlan> {
+    const plan = await this.get(tripId, planId);
+    const items = await readItineraryTab(tripId, plan.sheet_tab);
+
+    if (!items) {
+      console.log(`[Plans] Tab "${plan.sheet_tab}" missing, recreating...`);
+      await writeItineraryTab(tripId, plan.sheet_tab, plan.items);
+      return plan;
+    }
+
+    const { data, error } = await supabase
+      .from("itinerary_plans")
+      .update({ items, updated_at: new Date().toISOString() })
+      .eq("trip_id", tripId)
+      .eq("id", planId)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error syncing plan:", error);
+      throw new Error("Failed to sync plan");
+    }
+    return data as ItineraryPlan;
+  }
+
+  /**
+   * Compare two plans ("active" for the itinerary): locations planned in
+   * only one of them, and the stops, distance and estimated cost of each.
+   */
+  static async compare(tripId: string, a: string, b: string) {
+    const [planA, planB, locations] = await Promise.all([
+      this.resolve(tripId, a),
+      this.resolve(tripId, b),
+      getLocationsFromDb(tripId),
+    ]);
+    const locationsById = new Map(locations.map((loc) => [loc.id, loc]));
+    const describe = (locationId: string) => ({
+      id: locationId,
+      name: locationsById.get(locationId)?.name || null,
+    });
+
+    const idsA = new Set(planA.items.map((item) => item.locationId));
+    const idsB = new Set(planB.items.map((item) => item.locationId));
+    const onlyIn = (ids: Set<string>, other: Set<string>) =>
+      Array.from(ids)
+        .filter((id) => !other.has(id))
+        .map(describe);
+
+    return {
+      a: await this.summarize(tripId, planA),
+      b: await this.summarize(tripId, planB),
+      locations: {
+        onlyInA: onlyIn(idsA, idsB),
+        onlyInB: onlyIn(idsB, idsA),
+        inBoth: Array.from(idsA)
+          .filter((id) => idsB.has(id))
+          .map(describe),
+      },
+    };
+  }
+
+  /**
+   * Make a plan the active itinerary (rewrites the "Itinerary" tab). With
+   * keepCurrentAs the itinerary being replaced is saved as a plan once the
+   * itinerary was written, so a refused write leaves no plan behind.
+   */
+  static async promote(
+    tripId: string,
+    plan: ItineraryPlan,
+    options: { keepCurrentAs?: string },
+    ctx: MutationContext,
+    expectedEtag?: string
+  ) {
+    const state = await getItineraryState(tripId);
+    if (expectedEtag && state.etag !== expectedEtag) {
+      throw new Error("Itinerary changed");
+    }
+    // The name is checked up front: the itinerary can't be put back after
+    if (options.keepCurrentAs) {
+      const { data: taken, error } = await supabase
+        .from("itinerary_plans")
+        .select("id")
+        .eq("trip_id", tripId)
+        .eq("name", options.keepCurrentAs)
+        .maybeSingle();
+      if (error) throw new Error("Failed to fetch plans");
+      if (taken) throw new Error("A plan with this name already exists");
+    }
+
+    // With expectedEtag, the write only succeeds if `state` is still current
+    const result = await updateItineraryInSheet(
+      tripId,
+      plan.items,
+      ctx,
+      expectedEtag
+    );
+    const saved = options.keepCurrentAs
+      ? await this.insert(
+          tripId,
+          { name: options.keepCurrentAs, from: ACTIVE_PLAN },
+          state.items,
+          ctx
+        )
+      : null;
+    await ActivityService.record(tripId, ctx, {
+      type: "plan.promote",
+      target: plan.id,
+      summary: plan.name,
+      after: {
+        items: plan.items.length,
+        savedAs: saved?.name ?? null,
+      },
+    });
+    return { ...result, savedAs: saved };
+  }
+
+  // Name and items of a plan ID, or of the active itinerary
+  private static async resolve(tripId: string, ref: string) {
+    if (ref === ACTIVE_PLAN) {
+      return {
+        ref,
+        name: "Active itinerary",
+        items: await getItineraryFromDb(tripId),
+      };
+    }
+    const plan = await this.get(tripId, ref);
+    return { ref, name: plan.name, items: plan.items };
+  }
+
+  private static async summarize(
+    tripId: string,
+    { ref, name, items }: { ref: string; name: string; items: ItineraryItem[] }
+  ): Promise<PlanSummary> {
+    const [settings, rates, locations, travel] = await Promise.all([
+      TripService.getSettings(tripId),
+      ExchangeRateService.getRates(tripId),
+      getLocationsFromDb(tripId),
+      ItineraryPlanner.annotateTravel(tripId, items),
+    ]);
+    const locationsById = new Map(locations.map((loc) => [loc.id, loc]));
+
+    let minJpy = 0;
+    let maxJpy: number | null = 0;
+    let unpriced = 0;
+    for (const item of items) {
+      const loc = locationsById.get(item.locationId);
+      const range = loc ? parsePriceJpy(loc.priceJpy) : null;
+      if (!range) {
+        unpriced += 1;
+        continue;
+      }
+      minJpy += range.minJpy;
+      maxJpy =
+        maxJpy === null || range.maxJpy === null ? null : maxJpy + range.maxJpy;
+    }
+
+    const home = rates[settings.homeCurrency];
+    return {
+      ref,
+      name,
+      stops: items.length,
+      days: travel.days.length,
+      distanceKm: round2(
+        travel.days.reduce((sum, day) => sum + day.distanceKm, 0)
+      ),
+      travelMinutes: Math.round(
+        travel.days.reduce((sum, day) => sum + day.travelMinutes, 0)
+      ),
+      cost: {
+        minJpy,
+        maxJpy,
+        home: home
+          ? convertRange({ minJpy, maxJpy, kind: "range" }, home)
+          : null,
+        unpriced,
+      },
+    };
+  }
+
+  // Sheet tab titles are limited to 100 characters
+  private static tabName(name: string) {
+    return `${TAB_PREFIX}${name}`.slice(0, 100);
+  }
+
+  // The tab is a mirror: a failed write is logged, the plan is kept
+  private static async mirrorToSheet(
+    tripId: string,
+    tab: string,
+    items: ItineraryItem[]
+  ) {
+    try {
+      await writeItineraryTab(tripId, tab, items);
+    } catch (e: any) {
+      console.warn(`[Plans] Failed to write tab "${tab}":`, e.message);
+    }
+  }
+
+  private static async removeSheet(tripId: string, tab: string) {
+    try {
+      await deleteSheetTab(tripId, tab);
+    } catch (e: any) {
+      console.warn(`[Plans] Failed to delete tab "${tab}":`, e.message);
+    }
+  }
+}
@@ -1,18 +1,20 @@
 import { supabaseAdmin as supabase } from "./supabase";
 import { v4 as uuidv4 } from "uuid";
 import { nanoid } from "nanoid";
+import { TripService } from "./trip.service";
+import { ExchangeRateService } from "./exchangeRate.service";
 
 export class ShareService {
   /**
-   * Enable sharing for a user by generating a public slug.
+   * Enable sharing for a trip by generating a public slug.
    * If already shared, return the existing slug.
    */
-  static async enableSharing(ownerId: string): Promise<string> {
+  static async enableSharing(tripId: string): Promise<string> {
     // Check if duplicate
     const { data: existing } = await supabase
-      .from("profiles")
+      .from("trips")
       .select("public_slug")
-      .eq("id", ownerId)
+      .eq("id", tripId)
       .single();
 
     if (existing?.public_slug) {
@@ -23,9 +25,9 @@ export class ShareService {
     const slug = nanoid(10); // 10 chars should be enough collision resistance for now
 
     const { error } = await supabase
-      .from("profiles")
+      .from("trips")
       .update({ public_slug: slug, is_public: true })
-      .eq("id", ownerId);
+      .eq("id", tripId);
 
     if (error) {
       console.error("Error enabling sharing:", error);
@@ -36,13 +38,13 @@ export class ShareService {
   }
 
   /**
-   * Disable sharing for a user.
+   * Disable sharing for a trip.
    */
-  static async disableSharing(ownerId: string): Promise<void> {
+  static async disableSharing(tripId: string): Promise<void> {
     const { error } = await supabase
-      .from("profiles")
+      .from("trips")
       .update({ public_slug: null, is_public: false })
-      .eq("id", ownerId);
+      .eq("id", tripId);
 
     if (error) {
       throw new Error("Failed to disable sharing");
@@ -51,29 +53,35 @@ export class ShareService {
 
   /**
    * Get public trip data by slug.
-   * Returns profile info + locations + itinerary (if any).
+   * Returns trip + owner info + locations + itinerary (if any).
    */
   static async getSharedTrip(slug: string) {
-    // 1. Get Owner ID from Slug
-    const { data: profile, error: profileError } = await supabase
-      .from("profiles")
-      .select("id, email, is_public") // minimal info
+    // 1. Get Trip from Slug
+    const { data: trip, error: tripError } = await supabase
+      .from("trips")
+      .select("*")
       .eq("public_slug", slug)
       .single();
 
-    if (profileError || !profile) {
+    if (tripError || !trip) {
       throw new Error("Trip not found");
     }
 
-    if (!profile.is_public) {
+    if (!trip.is_public) {
       throw new Error("This trip is not public");
     }
 
+    const { data: owner } = await supabase
+      .from("profiles")
+      .select("email")
+      .eq("id", trip.owner_id)
+      .single();
+
     // 2. Fetch Locations from Cache
     const { data: locData, error: locError } = await supabase
       .from("cached_locations")
       .select("data")
-      .eq("owner_id", profile.id)
+      .eq("trip_id", trip.id)
       .single();
 
     if (locError && locError.code !== "PGRST116") {
@@ -84,18 +92,30 @@ export class ShareService {
     const { data: itinData, error: itinError } = await supabase
       .from("cached_itineraries")
       .select("data")
-      .eq("owner_id", profile.id)
+      .eq("trip_id", trip.id)
       .single();
 
     if (itinError && itinError.code !== "PGRST116") {
       // Itinerary is optional
     }
 
+    const settings = TripService.toSettings(trip);
+    const locations = await ExchangeRateService.priceLocations(
+      trip.id,
+      locData?.data || [],
+      settings.homeCurrency
+    );
+
     return {
+      trip: {
+        name: trip.name,
+        // Dates, timezone, currency and language for rendering the view
+        settings,
+      },
       owner: {
-        email: profile.email,
+        email: owner?.email,
       },
-      locations: locData?.data || [],
+      locations,
       itinerary: itinData?.data || [],
     };
   }
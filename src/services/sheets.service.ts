@@ -103,6 +103,20 @@ export class SheetsService {
     return response.data;
   }
 
+  /**
+   * Delete Sheet (Tab)
+   */
+  static async deleteSheet(auth: any, spreadsheetId: string, sheetId: number) {
+    const response = await sheets.spreadsheets.batchUpdate({
+      auth,
+      spreadsheetId,
+      requestBody: {
+        requests: [{ deleteSheet: { sheetId } }],
+      },
+    });
+    return response.data;
+  }
+
   /**
    * Get Spreadsheet Metadata
    */
@@ -157,6 +171,38 @@ export class SheetsService {
     });
     return response.data;
   }
+  /**
+   * Insert Empty Rows (0-based, end exclusive)
+   */
+  static async insertRows(
+    auth: any,
+    spreadsheetId: string,
+    sheetId: number,
+    startIndex: number,
+    endIndex: number
+  ) {
+    const response = await sheets.spreadsheets.batchUpdate({
+      auth,
+      spreadsheetId,
+      requestBody: {
+        requests: [
+          {
+            insertDimension: {
+              range: {
+                sheetId,
+                dimension: "ROWS",
+                startIndex,
+                endIndex,
+              },
+              inheritFromBefore: startIndex > 0,
+            },
+          },
+        ],
+      },
+    });
+    return response.data;
+  }
+
   /**
    * Delete Rows
    */
@@ -0,0 +1,84 @@
+import fs from "fs";
+import { CONFIG } from "../config";
+import { BUNDLED_STATIONS } from "../data/stations";
+import { Location, NearestStation, Station } from "../types";
+import { hasCoordinates, haversineKm } from "../utils/route";
+import { estimateTravel } from "../utils/travel";
+
+// Stations further away than this are not worth walking to
+const MAX_STATION_KM = 3;
+
+// Station list, read once per process
+let stations: Station[] | undefined;
+
+function loadStations(): Station[] {
+  if (stations) return stations;
+  stations = BUNDLED_STATIONS;
+  if (!CONFIG.STATIONS.FILE) return stations;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(CONFIG.STATIONS.FILE, "utf8"));
+    const valid = (Array.isArray(parsed) ? parsed : []).filter(
+      (s: any) =>
+        s && s.id && s.name && hasCoordinates({ lat: s.lat, lng: s.lng })
+    );
+    if (valid.length === 0) throw new Error("No valid stations in file");
+
+    stations = valid.map((s: any) => ({
+      id: String(s.id),
+      name: s.name,
+      nameJa: s.nameJa || "",
+      lines: Array.isArray(s.lines) ? s.lines : [],
+      lat: Number(s.lat),
+      lng: Number(s.lng),
+    }));
+    console.log(
+      `[Stations] Loaded ${valid.length} stations from ${CONFIG.STATIONS.FILE}`
+    );
+  } catch (e: any) {
+    console.warn("[Stations] Could not load STATIONS_FILE:", e.message);
+  }
+  return stations!;
+}
+
+export class StationService {
+  /**
+   * Closest stations to a point (nearest first) within walking range.
+   */
+  static nearest(
+    point: { lat: number; lng: number },
+    limit = 3
+  ): NearestStation[] {
+    if (!hasCoordinates(point)) return [];
+
+    return loadStations()
+      .map((station) => ({
+        station,
+        distanceKm: haversineKm(point, station),
+      }))
+      .filter(({ distanceKm }) => distanceKm <= MAX_STATION_KM)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, limit)
+      .map(({ station, distanceKm }) => {
+        const estimate = estimateTravel(distanceKm);
+        return {
+          ...station,
+          distanceKm: estimate.distanceKm,
+          walkMinutes: estimate.minutes.walk,
+        };
+      });
+  }
+
+  /**
+   * Fill nearestStations and distanceFromMetro of a location from its
+   * coordinates (both cleared if it has none or no station is close).
+   */
+  static annotate(loc: Location): Location {
+    const nearest = this.nearest(loc);
+    loc.nearestStations = nearest;
+    loc.distanceFromMetro = nearest[0]
+      ? `${nearest[0].walkMinutes} min walk from ${nearest[0].name}`
+      : undefined;
+    return loc;
+  }
+}
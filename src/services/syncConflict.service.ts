@@ -0,0 +1,102 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { SyncConflictInput } from "../utils/syncPlan";
+import { Location } from "../types";
+
+export interface SyncConflict {
+  id: number;
+  trip_id: string;
+  location_id: string;
+  sheet_data: Location | null;
+  app_data: Location | null;
+  base_version: number;
+  status: "open" | "resolved";
+  resolution: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export class SyncConflictService {
+  /**
+   * List open conflicts for a trip (oldest first).
+   */
+  static async listOpen(tripId: string): Promise<SyncConflict[]> {
+    const { data, error } = await supabase
+      .from("sync_conflicts")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("status", "open")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error listing sync conflicts:", error);
+      throw new Error("Failed to list sync conflicts");
+    }
+    return data || [];
+  }
+
+  /**
+   * Get one open conflict of a trip, or null.
+   */
+  static async getOpen(tripId: string, conflictId: number) {
+    const { data, error } = await supabase
+      .from("sync_conflicts")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("id", conflictId)
+      .eq("status", "open")
+      .single();
+
+    if (error && error.code !== "PGRST116") throw error;
+    return (data as SyncConflict) || null;
+  }
+
+  /**
+   * Record conflicts found by a sync.
+   * A location has at most one open conflict; a newer sync replaces it.
+   */
+  static async record(tripId: string, conflicts: SyncConflictInput[]) {
+    if (conflicts.length === 0) return;
+
+    await supabase
+      .from("sync_conflicts")
+      .delete()
+      .eq("trip_id", tripId)
+      .eq("status", "open")
+      .in(
+        "location_id",
+        conflicts.map((c) => c.locationId)
+      );
+
+    const { error } = await supabase.from("sync_conflicts").insert(
+      conflicts.map((c) => ({
+        trip_id: tripId,
+        location_id: c.locationId,
+        sheet_data: c.sheet,
+        app_data: c.app,
+        base_version: c.baseVersion,
+        status: "open",
+      }))
+    );
+
+    if (error) {
+      console.error("Error recording sync conflicts:", error);
+      throw new Error("Failed to record sync conflicts");
+    }
+  }
+
+  /**
+   * Close a conflict.
+   */
+  static async markResolved(conflictId: number, resolution: string) {
+    const { error } = await supabase
+      .from("sync_conflicts")
+      .update({
+        status: "resolved",
+        resolution,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq("id", conflictId);
+
+    if (error) throw new Error("Failed to resolve sync conflict");
+  }
+}
@@ -1,358 +1,520 @@
+import crypto from "crypto";
+import { nanoid } from "nanoid";
 import { supabaseAdmin } from "./supabase";
-import { decrypt } from "../utils/encryption";
-import { Location } from "../types";
+import { ItineraryItem, Location, MutationContext, PlaceData } from "../types";
 import { CONFIG } from "../config";
 import { GeocodingService } from "./geocoding.service";
 import { SheetsService } from "./sheets.service";
+import { EnrichmentQueue } from "./enrichmentQueue.service";
+import { SyncConflictService } from "./syncConflict.service";
+import { ChangeFeedService } from "./changeFeed.service";
+import { HistoryService } from "./history.service";
+import {
+  ActivityService,
+  ActivityType,
+  countChanges,
+  LOCATION_SUMMARY_FIELDS,
+  pickFields,
+} from "./activity.service";
+import { TrashService } from "./trash.service";
+import { StationService } from "./station.service";
+import { IntegrityService } from "./integrity.service";
+import { DEFAULT_TRIP_SETTINGS, TripService } from "./trip.service";
+import { systemContext } from "../utils/mutationContext";
+import { canonicalJson } from "../utils/canonicalJson";
+import { planSync, hashLocation, RowStateMap } from "../utils/syncPlan";
+import { dayDate, UNSCHEDULED_DAY } from "../utils/tripDays";
+import {
+  checkSchedule,
+  formatTime,
+  parseTime,
+  sortItinerary,
+} from "../utils/schedule";
+import {
+  ColumnMap,
+  ColumnMapService,
+  HeaderAliases,
+  LOCATION_COLUMNS,
+  LocationColumn,
+  columnLetter,
+} from "./columnMap.service";
+
+// Generate a new persistent Location ID (never derived from row position)
+export function generateLocationId() {
+  return `loc-${nanoid(10)}`;
+}
+
+// Rows without a single non-empty cell are treated as blank spacer rows
+const isBlankRow = (row: string[]) =>
+  !row || row.every((cell) => !cell || !String(cell).trim());
 
 // Transform Raw Rows (Arrays) to Location Objects
-function transformRowsToLocations(rows: string[][], colMap: any): Location[] {
-  // Helper to get value
-  const getVal = (row: string[], idx: number) => (idx >= 0 ? row[idx] : "");
-
-  return rows.slice(1).map((row, idx) => {
-    const photoRef = getVal(row, colMap.photo);
-    let photoUrl = undefined;
-
-    // Check if user manually pasted a URL
-    if (photoRef?.startsWith("http")) {
-      photoUrl = photoRef;
-    } else if (photoRef) {
-      photoUrl = GeocodingService.getPhotoUrl(photoRef);
+// Expects every non-blank row to already carry an ID (see backfillLocationIds)
+// Rows without a city fall back to the trip's country. Nearest stations are
+// derived from the coordinates (see StationService).
+function transformRowsToLocations(
+  rows: string[][],
+  colMap: ColumnMap,
+  defaultCity = DEFAULT_TRIP_SETTINGS.country
+): Location[] {
+  return rows
+    .slice(1)
+    .filter((row) => !isBlankRow(row))
+    .map((row) =>
+      locationFromColumns(ColumnMapService.fromRow(colMap, row), defaultCity)
+    );
+}
+
+// A Location from its column values, with the defaults and parsing every
+// sync applies (so app edits hash the same as the row read back later)
+function locationFromColumns(
+  values: Partial<Record<LocationColumn, any>>,
+  defaultCity: string
+): Location {
+  const getVal = (col: LocationColumn) =>
+    values[col] === undefined || values[col] === null
+      ? ""
+      : String(values[col]);
+
+  const photoRef = getVal("photo");
+  let photoUrl = undefined;
+
+  // Check if user manually pasted a URL
+  if (photoRef.startsWith("http")) {
+    photoUrl = photoRef;
+  } else if (photoRef) {
+    photoUrl = GeocodingService.getPhotoUrl(photoRef);
+  }
+
+  return StationService.annotate({
+    id: getVal("id"),
+    name: getVal("name") || "Unknown",
+    city: getVal("city") || defaultCity,
+    type: getVal("type") || "Spot",
+    priceJpy: getVal("priceJpy") || "-",
+    priceThb: "-", // Filled on read from priceJpy (see ExchangeRateService)
+    description: getVal("description") || "",
+    googleMapsUrl: getVal("googleMapsUrl") || "#",
+    lat: parseFloat(getVal("lat")) || 0,
+    lng: parseFloat(getVal("lng")) || 0,
+    photoUrl, // Derived from PhotoRef or Manual URL
+  });
+}
+
+// Assign persistent IDs to rows that don't have one yet (or that carry a
+// duplicate, e.g. a row copy-pasted together with its ID cell).
+// Mutates `rows` in place and returns the cell writes needed to persist them.
+// When the ID column is brand new (legacy sheet), rows keep the positional
+// `loc-<index>` they were known by so existing itineraries stay valid.
+function backfillLocationIds(
+  rows: string[][],
+  idCol: number,
+  isNewColumn: boolean
+) {
+  const used = new Set(
+    rows
+      .slice(1)
+      .map((row) => row[idCol])
+      .filter((id) => !!id)
+  );
+  const seen = new Set<string>();
+  const writes: { range: string; values: any[][] }[] = [];
+
+  rows.slice(1).forEach((row, i) => {
+    if (isBlankRow(row)) return;
+    if (row[idCol] && !seen.has(row[idCol])) {
+      seen.add(row[idCol]);
+      return;
     }
 
-    return {
-      id: `loc-${idx}`, // Generate ID based on index for now
-      name: getVal(row, colMap.name) || "Unknown",
-      city: getVal(row, colMap.city) || "Japan",
-      type: getVal(row, colMap.type) || "Spot",
-      priceJpy: getVal(row, colMap.price) || "-",
-      priceThb: "-", // Calc?
-      description: getVal(row, colMap.desc) || "",
-      googleMapsUrl: getVal(row, colMap.url) || "#",
-      lat: parseFloat(getVal(row, colMap.lat)) || 0,
-      lng: parseFloat(getVal(row, colMap.lng)) || 0,
-      photoUrl, // Derived from PhotoRef or Manual URL
-    };
+    // Positional IDs counted every row below the header, blank ones included
+    let id = isNewColumn ? `loc-${i}` : generateLocationId();
+    while (used.has(id)) id = generateLocationId();
+    used.add(id);
+    seen.add(id);
+
+    // Pad sparse rows so the ID lands in the right cell
+    while (row.length <= idCol) row.push("");
+    row[idCol] = id;
+
+    writes.push({
+      range: `Locations!${columnLetter(idCol)}${i + 2}`,
+      values: [[id]],
+    });
   });
+
+  return writes;
 }
 
-// Sync Strategy: Read Google -> Write DB
-export async function syncSheetToDb(ownerId: string) {
-  // 1. Get User Profile with Encrypted Token
-  const { data: profile, error } = await supabaseAdmin
-    .from("profiles")
-    .select("google_refresh_token, spreadsheet_id")
-    .eq("id", ownerId)
-    .single();
+// Load the trip's spreadsheet and a Sheets client authorized as its owner
+export async function getSheetContext(tripId: string) {
+  const trip = await TripService.getTrip(tripId);
+  if (!trip) throw new Error("Trip not found");
+  if (!trip.spreadsheet_id) throw new Error("Trip has no linked spreadsheet.");
+
+  return {
+    auth: await TripService.getOwnerAuth(trip.owner_id),
+    spreadsheetId: trip.spreadsheet_id,
+  };
+}
+
+// Map Location ID -> current 1-based sheet row number
+async function getLocationRowNumbers(
+  tripId: string,
+  auth: any,
+  spreadsheetId: string
+) {
+  const colMap = await ColumnMapService.getColumnMap(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+  const letter = columnLetter(colMap.id);
+  const rows = await SheetsService.getValues(
+    auth,
+    spreadsheetId,
+    `Locations!${letter}:${letter}`
+  );
+
+  const rowNumberById = new Map<string, number>();
+  (rows || []).forEach((row, i) => {
+    if (i > 0 && row[0]) rowNumberById.set(row[0], i + 1);
+  });
+  return rowNumberById;
+}
+
+// Resolve a Location ID to its current 1-based sheet row number
+async function findLocationRow(
+  tripId: string,
+  auth: any,
+  spreadsheetId: string,
+  locationId: string
+) {
+  const rowNumbers = await getLocationRowNumbers(tripId, auth, spreadsheetId);
+  const rowNumber = rowNumbers.get(locationId);
+  if (!rowNumber) throw new Error("Location not found");
+  return rowNumber;
+}
+
+// Grid ID of a tab (needed for row insertion/deletion)
+async function getGridId(
+  auth: any,
+  spreadsheetId: string,
+  title = "Locations"
+) {
+  const metadata = await SheetsService.getMetadata(auth, spreadsheetId);
+  const sheet =
+    metadata.sheets?.find((s: any) => s.properties?.title === title) ||
+    (title === "Locations" ? metadata.sheets?.[0] : undefined); // Default to first sheet if "Locations" not found (Legacy)
 
   if (
-    error ||
-    !profile ||
-    !profile.spreadsheet_id ||
-    !profile.google_refresh_token
+    !sheet ||
+    !sheet.properties ||
+    typeof sheet.properties.sheetId === "undefined" ||
+    sheet.properties.sheetId === null
   ) {
-    throw new Error("User profile incomplete or missing sheet.");
+    throw new Error("Could not find sheet to delete from");
   }
 
-  // 2. Decrypt Token & Get Auth Client
-  const refreshToken = decrypt(profile.google_refresh_token);
-  const auth = SheetsService.getAuthClient(refreshToken);
+  return sheet.properties.sheetId as number;
+}
 
-  // 3. Fetch from Google
-  // Extend range to cover potential extra columns
-  const rows = await SheetsService.getValues(
-    auth,
-    profile.spreadsheet_id,
-    "Locations!A:Z"
-  );
-
-  if (!rows || rows.length === 0) return { locations: [], remainingCount: 0 };
-
-  // 3.1 Dynamic Header Mapping
-  const headerRow = rows[0].map((h: string) => h.toLowerCase().trim());
-  const colMap = {
-    name: headerRow.indexOf("restaurant name"), // Or just "Name"
-    city: headerRow.indexOf("city"),
-    type: headerRow.indexOf("cuisine type"), // Or "Type"
-    price: headerRow.indexOf("price (jpy)"),
-    desc: headerRow.indexOf("best for"), // description
-    url: headerRow.indexOf("google maps"),
-    lat: headerRow.indexOf("latitude"),
-    lng: headerRow.indexOf("longitude"),
-    photo: headerRow.indexOf("photo reference"),
-  };
+// Delete sheet rows (1-based row numbers), bottom-up so indices stay valid
+async function deleteSheetRows(
+  auth: any,
+  spreadsheetId: string,
+  rowNumbers: number[],
+  title = "Locations"
+) {
+  if (rowNumbers.length === 0) return;
+  const sheetId = await getGridId(auth, spreadsheetId, title);
 
-  // Fallback if headers are completely missing/wrong names (Legacy support)
-  // Indices: 0, 1, 2, 3, 4, 5, 6, 7, 8
-  if (colMap.name === -1) colMap.name = 0;
-  if (colMap.city === -1) colMap.city = 1;
-  if (colMap.type === -1) colMap.type = 2;
-  if (colMap.price === -1) colMap.price = 3;
-  if (colMap.desc === -1) colMap.desc = 4;
-  if (colMap.url === -1) colMap.url = 5;
-  if (colMap.lat === -1) colMap.lat = 6;
-  if (colMap.lng === -1) colMap.lng = 7;
-  if (colMap.photo === -1) colMap.photo = 8;
-
-  // Check and Repair Headers (if lat/lng columns completely missing from index)
-  // If the sheet has fewer columns than where 'longitude' should be, we might need to add them.
-  // Ideally, if "Latitude" is missing, we append it to the header.
-  if (colMap.lat === -1 || colMap.lng === -1 || colMap.photo === -1) {
-    console.log("[Sync] repairing/appending missing headers...");
-    const newHeaders = [...rows[0]];
-    if (colMap.lat === -1) {
-      newHeaders.push("Latitude");
-      colMap.lat = newHeaders.length - 1;
-    }
-    if (colMap.lng === -1) {
-      newHeaders.push("Longitude");
-      colMap.lng = newHeaders.length - 1;
-    }
-    if (colMap.photo === -1) {
-      newHeaders.push("Photo Reference");
-      colMap.photo = newHeaders.length - 1;
-    }
-    // Update Header Row
-    await SheetsService.updateRange(
+  // 0-based deleteDimension index: Row 1 = 0, Row 2 = 1.
+  for (const rowNumber of [...rowNumbers].sort((a, b) => b - a)) {
+    await SheetsService.deleteRows(
       auth,
-      profile.spreadsheet_id,
-      "Locations!A1",
-      [newHeaders]
+      spreadsheetId,
+      sheetId,
+      rowNumber - 1,
+      rowNumber
     );
   }
+}
 
-  // Helper to get value for updates
-  const getVal = (row: string[], idx: number) => (idx >= 0 ? row[idx] : "");
-
-  const locations = transformRowsToLocations(rows, colMap);
-  const updates: {
-    rowIdx: number;
-    lat: number;
-    lng: number;
-    photoRef: string;
-    type?: string;
-    price?: string;
-    desc?: string;
-    url?: string;
-  }[] = [];
-
-  // Identify items needing fetch
-  // We fetch if ANY key field is missing (Lat/Lng, Photo, or Metadata like Price/Type)
-  let itemsToFetch = locations
-    .map((loc, i) => ({ loc, i }))
-    .filter(({ loc, i }) => {
-      const rawRow = rows[i + 1];
-      const hasPhotoRef = rawRow && getVal(rawRow, colMap.photo);
-
-      // Check for missing strict fields
-      const missingCoords = !loc.lat || !loc.lng;
-      const missingPhoto = !hasPhotoRef;
-
-      // Check for missing metadata (checks against default values)
-      const missingType = !loc.type || loc.type === "Spot";
-      const missingPrice = !loc.priceJpy || loc.priceJpy === "-";
-      const missingDesc = !loc.description;
-      const missingUrl = !loc.googleMapsUrl || loc.googleMapsUrl === "#";
-
-      return (
-        loc.name !== "Unknown" &&
-        (missingCoords ||
-          missingPhoto ||
-          missingType ||
-          missingPrice ||
-          missingDesc ||
-          missingUrl)
-      );
-    });
+// Sheet cell values for a Location edit.
+// The ID is immutable, and a photo URL we generated from a photo reference
+// is written back as that reference (never as a URL carrying our API key).
+function toSheetValues(loc: Partial<Location>) {
+  const { id: _id, ...values } = ColumnMapService.toColumnValues(loc);
+  if (
+    typeof values.photo === "string" &&
+    values.photo.includes("maps.googleapis.com")
+  ) {
+    const photoRef = GeocodingService.getPhotoRefFromUrl(values.photo);
+    if (photoRef) values.photo = photoRef;
+    else delete values.photo;
+  }
+  return values;
+}
 
-  let updatedCount = 0;
-  let remainingCount = 0;
-  if (itemsToFetch.length > 0) {
-    // VERCEL FREE TIER FIX:
-    // Limit to 3 items per Sync request to prevent 10s timeout (Sequential is slower).
-    const BATCH_SIZE = 3;
-    if (itemsToFetch.length > BATCH_SIZE) {
-      remainingCount = itemsToFetch.length - BATCH_SIZE;
-      console.log(
-        `[Sync] Too many items (${itemsToFetch.length}), processing first ${BATCH_SIZE} only... (${remainingCount} remaining)`
-      );
-      itemsToFetch = itemsToFetch.slice(0, BATCH_SIZE);
-    } else {
-      console.log(`[Sync] Enriching ${itemsToFetch.length} locations...`);
-    }
+// Fields the enrichment worker can fill in (checked against default values)
+export function needsEnrichment(loc: Location) {
+  if (loc.name === "Unknown") return false;
+  return (
+    !loc.lat ||
+    !loc.lng ||
+    !loc.photoUrl ||
+    !loc.type ||
+    loc.type === "Spot" ||
+    !loc.priceJpy ||
+    loc.priceJpy === "-" ||
+    !loc.description ||
+    !loc.googleMapsUrl ||
+    loc.googleMapsUrl === "#"
+  );
+}
 
-    // VERCEL FIX: Sequential processing to avoid Google Maps QPS Rate Limits
-    const startTime = Date.now();
+// Sync Strategy: Incremental two-way sync between Google Sheet and DB.
+// Rows changed on one side only are copied to the other; rows changed on
+// both sides are recorded as conflicts (see resolveSyncConflict).
+// Locations still missing data are queued for the enrichment worker
+// (see EnrichmentQueue) instead of being geocoded inline.
+export async function syncSheetToDb(
+  tripId: string,
+  ctx: MutationContext = systemContext("sync")
+) {
+  // 1. Get Sheet Client
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
 
-    for (const { loc, i } of itemsToFetch) {
-      // Safety Check: If we are close to Vercel Timeout (e.g. > 6s elapsed), stop and save.
-      if (Date.now() - startTime > 6000) {
-        console.warn("[Sync] Timeout approaching, saving partial progress...");
-        remainingCount += itemsToFetch.length - updatedCount; // Adjust remaining
-        break;
-      }
+  // 2. Fetch from Google
+  // Whole tab: mapped columns can lie past Z (appended headers)
+  const rows = await SheetsService.getValues(auth, spreadsheetId, "Locations");
 
-      const query = `${loc.name}, ${loc.city}, Japan`;
-      const data = await GeocodingService.fetchPlaceData(query);
-
-      if (data) {
-        // Update Local Object (so cache is correct immediately)
-        if (!loc.lat || !loc.lng) {
-          loc.lat = data.lat;
-          loc.lng = data.lng;
-        }
-        if (
-          (!loc.googleMapsUrl || loc.googleMapsUrl === "#") &&
-          data.googleMapsUrl
-        ) {
-          loc.googleMapsUrl = data.googleMapsUrl;
-        }
-        if (!loc.description && data.summary) {
-          loc.description = data.summary;
-        }
-        if ((!loc.priceJpy || loc.priceJpy === "-") && data.priceLevel) {
-          loc.priceJpy = data.priceLevel;
-        }
-        if ((!loc.type || loc.type === "Spot") && data.type) {
-          loc.type = data.type;
-        }
-
-        const photoRef = data.photoRef || "";
-        if (
-          photoRef &&
-          (!loc.photoUrl || loc.photoUrl.includes("maps.googleapis.com"))
-        ) {
-          // Only update if we have a new ref or current is auto-generated
-          loc.photoUrl = GeocodingService.getPhotoUrl(photoRef);
-        }
-
-        // Prepare Sheet Update
-        updates.push({
-          rowIdx: i + 2, // 1-based + 1 header (using original index i from itemsToFetch)
-          lat: data.lat,
-          lng: data.lng,
-          photoRef,
-          type: data.type,
-          price: data.priceLevel,
-          desc: data.summary,
-          url: data.googleMapsUrl,
-        });
-
-        updatedCount++;
-      }
-    }
+  if (!rows || rows.length === 0) return { locations: [], queuedCount: 0 };
+
+  // 2.1 Dynamic Header Mapping
+  // Detects columns by header name, appends any missing headers (Latitude,
+  // Location ID, ...) and caches the map for the other write paths.
+  const { map: colMap, added } = await ColumnMapService.resolve(
+    tripId,
+    auth,
+    spreadsheetId,
+    rows[0]
+  );
+  const isNewIdColumn = added.includes("id");
+
+  // 2.2 Backfill persistent IDs for rows that don't have one yet
+  const idWrites = backfillLocationIds(rows, colMap.id, isNewIdColumn);
+  if (idWrites.length > 0) {
+    console.log(`[Sync] Assigning IDs to ${idWrites.length} rows...`);
+    await SheetsService.batchUpdateValues(auth, spreadsheetId, idWrites);
   }
 
-  // 3.6 Batch Write Back to Google Sheets
-  if (updates.length > 0) {
-    console.log(`[Sync] Batch updating ${updates.length} rows in Sheet...`);
-
-    const getColLetter = (n: number) => String.fromCharCode(65 + n); // A=65
-
-    const batchData = updates
-      .map((u) => {
-        const changes = [];
-        if (colMap.lat !== -1)
-          changes.push({
-            range: `Locations!${getColLetter(colMap.lat)}${u.rowIdx}`,
-            values: [[u.lat]],
-          });
-        if (colMap.lng !== -1)
-          changes.push({
-            range: `Locations!${getColLetter(colMap.lng)}${u.rowIdx}`,
-            values: [[u.lng]],
-          });
-        if (colMap.photo !== -1 && u.photoRef)
-          changes.push({
-            range: `Locations!${getColLetter(colMap.photo)}${u.rowIdx}`,
-            values: [[u.photoRef]],
-          });
-
-        // New Fields
-        if (colMap.type !== -1 && u.type)
-          changes.push({
-            range: `Locations!${getColLetter(colMap.type)}${u.rowIdx}`,
-            values: [[u.type]],
-          });
-        if (colMap.price !== -1 && u.price)
-          changes.push({
-            range: `Locations!${getColLetter(colMap.price)}${u.rowIdx}`,
-            values: [[u.price]],
-          });
-        if (colMap.desc !== -1 && u.desc)
-          changes.push({
-            range: `Locations!${getColLetter(colMap.desc)}${u.rowIdx}`,
-            values: [[u.desc]],
-          });
-        if (colMap.url !== -1 && u.url)
-          changes.push({
-            range: `Locations!${getColLetter(colMap.url)}${u.rowIdx}`,
-            values: [[u.url]],
-          });
-
-        return changes;
-      })
-      .flat();
+  const settings = await TripService.getSettings(tripId);
+  const sheetLocations = transformRowsToLocations(
+    rows,
+    colMap,
+    settings.country
+  );
+  const rowNumberById = new Map<string, number>();
+  rows.forEach((row, i) => {
+    if (i > 0 && row[colMap.id]) rowNumberById.set(row[colMap.id], i + 1);
+  });
 
-    await SheetsService.batchUpdateValues(
+  // 3. Three-way compare: sheet rows vs cache vs last synced state
+  const { data: cache, error: cacheError } = await supabaseAdmin
+    .from("cached_locations")
+    .select("data, row_state")
+    .eq("trip_id", tripId)
+    .single();
+
+  if (cacheError && cacheError.code !== "PGRST116") throw cacheError;
+
+  const plan = planSync(
+    sheetLocations,
+    (cache?.data as Location[]) || [],
+    (cache?.row_state as RowStateMap) || {},
+    new Date().toISOString()
+  );
+
+  // 4. Push app-side changes that haven't reached the sheet yet
+  const cellUpdates = plan.sheetUpdates
+    .map((loc) =>
+      ColumnMapService.toCellUpdates(
+        colMap,
+        rowNumberById.get(loc.id)!,
+        toSheetValues(loc)
+      )
+    )
+    .flat();
+  if (cellUpdates.length > 0) {
+    await SheetsService.batchUpdateValues(auth, spreadsheetId, cellUpdates);
+  }
+  if (plan.sheetInserts.length > 0) {
+    await SheetsService.appendRow(
       auth,
-      profile.spreadsheet_id,
-      batchData
+      spreadsheetId,
+      "Locations!A1",
+      plan.sheetInserts.map((loc) =>
+        ColumnMapService.toRow(colMap, { ...toSheetValues(loc), id: loc.id })
+      )
     );
   }
+  await deleteSheetRows(
+    auth,
+    spreadsheetId,
+    plan.sheetDeletes.map((id) => rowNumberById.get(id)!)
+  );
 
-  // 4. Update Supabase Cache
+  // 5. Update Supabase Cache
   const { error: upsertError } = await supabaseAdmin
     .from("cached_locations")
     .upsert(
       {
-        owner_id: ownerId,
-        sheet_id: profile.spreadsheet_id,
-        data: locations,
+        trip_id: tripId,
+        sheet_id: spreadsheetId,
+        data: plan.locations,
+        row_state: plan.rowState,
         updated_at: new Date().toISOString(),
       },
-      { onConflict: "owner_id" }
+      { onConflict: "trip_id" }
     );
 
   if (upsertError) throw upsertError;
 
-  // Calculate remaining count
-  // If we sliced itemsToFetch, remaining is (total - BATCH_SIZE)
-  // If we didn't slice, remaining is 0 (or we could track total missing)
-  // We can't know accurate 'total missing' unless we track it before slicing.
-  // Actually, we sliced 'itemsToFetch' variable.
-  // Let's assume we re-calculate or capture the length before slicing.
-  // The 'itemsToFetch' variable was modified in place in previous step.
-  // Wait, I need to capture original length.
-
-  // NOTE: In the previous step I modified 'itemsToFetch' directly.
-  // To implement this correctly I should have captured 'totalMissing' before slicing.
-  // I will fix that logic here by reading the array *after* the previous block?
-  // No, I need to know how many were *skipped*.
-
-  // Since I can't see the exact lines of the previous block easily without reading again,
-  // I will rely on the fact that I just modified it.
-  // Actually, I should probably rewrite the block I just touched to capture `remainingCount`.
-
-  // Let's rewrite the 'Identify items' block to be cleaner and return the count.
-  // Wait, I can just return 'locations' as before, but I need to change signature or return object.
-  // The function currently returns 'Location[]'.
-  // I should change it to return { locations: Location[], remainingCount: number }.
+  await SyncConflictService.record(tripId, plan.conflicts);
+  await ChangeFeedService.recordLocationChanges(
+    tripId,
+    (cache?.data as Location[]) || [],
+    plan.locations
+  );
+  await ChangeFeedService.recordSync(tripId);
+  await HistoryService.snapshot(tripId, ctx);
+  await ActivityService.record(tripId, ctx, {
+    type: "sheet.sync",
+    summary: `${plan.locations.length} locations`,
+    before: { locations: ((cache?.data as Location[]) || []).length },
+    after: {
+      locations: plan.locations.length,
+      ...plan.stats,
+      conflicts: plan.conflicts.length,
+    },
+  });
+  await IntegrityService.check(tripId);
+
+  // 6. Queue locations that are missing coordinates, photo or metadata
+  const queuedCount = await EnrichmentQueue.enqueue(
+    tripId,
+    plan.locations.filter(needsEnrichment).map((loc) => loc.id)
+  );
 
   return {
-    locations,
-    remainingCount,
-    updatedCount,
+    locations: plan.locations,
+    queuedCount,
+    changes: plan.stats,
+    conflictCount: plan.conflicts.length,
   };
 }
 
+// Write fetched place data back to the Sheet and Cache.
+// Only fields that are still empty/default are filled in; returns the IDs
+// of the locations that were found (in sheet and cache) and updated.
+export async function applyEnrichment(
+  tripId: string,
+  results: { locationId: string; data: PlaceData }[],
+  ctx: MutationContext = systemContext("enrichment")
+) {
+  if (results.length === 0) return [];
+
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const colMap = await ColumnMapService.getColumnMap(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+
+  const rowNumberById = await getLocationRowNumbers(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+
+  const locations = (await getLocationsFromDb(tripId)) as Location[];
+  const before: Location[] = JSON.parse(JSON.stringify(locations));
+  const byId = new Map(locations.map((loc) => [loc.id, loc]));
+
+  const applied: string[] = [];
+  const batchData: { range: string; values: any[][] }[] = [];
+
+  for (const { locationId, data } of results) {
+    const loc = byId.get(locationId);
+    const rowNumber = rowNumberById.get(locationId);
+    if (!loc || !rowNumber) continue;
+
+    // Empty enrichment values never overwrite existing cells
+    const values: Partial<Record<LocationColumn, any>> = {};
+    if (!loc.lat || !loc.lng) {
+      loc.lat = values.lat = data.lat;
+      loc.lng = values.lng = data.lng;
+      StationService.annotate(loc);
+    }
+    if (
+      (!loc.googleMapsUrl || loc.googleMapsUrl === "#") &&
+      data.googleMapsUrl
+    ) {
+      loc.googleMapsUrl = values.googleMapsUrl = data.googleMapsUrl;
+    }
+    if (!loc.description && data.summary) {
+      loc.description = values.description = data.summary;
+    }
+    if ((!loc.priceJpy || loc.priceJpy === "-") && data.priceLevel) {
+      loc.priceJpy = values.priceJpy = data.priceLevel;
+    }
+    if ((!loc.type || loc.type === "Spot") && data.type) {
+      loc.type = values.type = data.type;
+    }
+    // Only replace the photo if we have a new ref or current is auto-generated
+    if (
+      data.photoRef &&
+      (!loc.photoUrl || loc.photoUrl.includes("maps.googleapis.com"))
+    ) {
+      loc.photoUrl = GeocodingService.getPhotoUrl(data.photoRef);
+      values.photo = data.photoRef;
+    }
+
+    batchData.push(
+      ...ColumnMapService.toCellUpdates(colMap, rowNumber, values)
+    );
+    applied.push(locationId);
+  }
+
+  // Batch Write Back to Google Sheets
+  if (batchData.length > 0) {
+    console.log(`[Enrich] Batch updating ${applied.length} rows in Sheet...`);
+    await SheetsService.batchUpdateValues(auth, spreadsheetId, batchData);
+  }
+
+  if (applied.length > 0) {
+    const { error } = await supabaseAdmin
+      .from("cached_locations")
+      .update({ data: locations, updated_at: new Date().toISOString() })
+      .eq("trip_id", tripId);
+    if (error) throw error;
+
+    await ChangeFeedService.recordLocationChanges(tripId, before, locations);
+    await HistoryService.snapshot(tripId, ctx);
+    await IntegrityService.check(tripId);
+  }
+
+  return applied;
+}
+
 // Read Strategy: Read DB (Fast)
-export async function getLocationsFromDb(ownerId: string) {
+export async function getLocationsFromDb(tripId: string): Promise<Location[]> {
   const { data, error } = await supabaseAdmin
     .from("cached_locations")
     .select("data")
-    .eq("owner_id", ownerId)
+    .eq("trip_id", tripId)
     .single();
 
   if (error && error.code !== "PGRST116") {
@@ -365,160 +527,622 @@ export async function getLocationsFromDb(ownerId: string) {
 }
 
 // Update Single Location
+// The cache is updated first; if pushing to the sheet fails the edit stays
+// pending and the next sync writes it (it only changed on the app side).
 export async function updateLocationInSheet(
-  ownerId: string,
+  tripId: string,
   locationId: string,
-  updates: Partial<Location>
+  updates: Partial<Location>,
+  ctx: MutationContext = systemContext("update")
 ) {
-  // 1. Get User Profile
-  const { data: profile, error } = await supabaseAdmin
-    .from("profiles")
-    .select("google_refresh_token, spreadsheet_id")
-    .eq("id", ownerId)
+  // 1. Update Cache (Optimistic)
+  // Fetch current cache, modify one item, save back
+  const { data: cache, error: readError } = await supabaseAdmin
+    .from("cached_locations")
+    .select("data")
+    .eq("trip_id", tripId)
     .single();
+  // PGRST116: no cache yet, so no such location either
+  if (readError && readError.code !== "PGRST116") throw readError;
 
-  if (error || !profile?.spreadsheet_id || !profile?.google_refresh_token) {
-    throw new Error("User profile incomplete.");
-  }
-
-  // 2. Parse Row Index from ID (loc-0 -> Row 2)
-  const rowIndex = parseInt(locationId.replace("loc-", "")) + 2;
-  if (isNaN(rowIndex)) throw new Error("Invalid Location ID");
-
-  // 3. Decrypt & Auth
-  const refreshToken = decrypt(profile.google_refresh_token);
-  const auth = SheetsService.getAuthClient(refreshToken);
-
-  // 4. Determine Column & Value to Update
-  // We map fields to Column Letters: A=Name, B=City, C=Type, D=Price
-  // Note: We only support basic field updates for now.
-  // TODO: Use Dynamic Header Logic here too if we want true robustness, but for now fixed A-D is legacy behavior.
-  // Warning: If user moves columns, this breaks.
-  // For safety, let's assume standard A-D for now as implementing dynamic read here is costly (double fetch).
-
-  const changes = [];
-  if (updates.name)
-    changes.push({ range: `Locations!A${rowIndex}`, values: [[updates.name]] });
-  if (updates.city)
-    changes.push({ range: `Locations!B${rowIndex}`, values: [[updates.city]] });
-  if (updates.type)
-    changes.push({ range: `Locations!C${rowIndex}`, values: [[updates.type]] });
-  if (updates.priceJpy)
-    changes.push({
-      range: `Locations!D${rowIndex}`,
-      values: [[updates.priceJpy]],
-    });
+  const locations = (cache?.data as Location[]) || [];
+  if (!locations.some((loc) => loc.id === locationId)) {
+    throw new Error("Location not found");
+  }
+
+  // Normalized like a synced row, so the next sync sees no change
+  const { country } = await TripService.getSettings(tripId);
+  const newLocations = locations.map((loc) => {
+    if (loc.id !== locationId) return loc;
+    return {
+      ...loc,
+      ...locationFromColumns(
+        { ...toSheetValues({ ...loc, ...updates }), id: locationId },
+        country
+      ),
+    };
+  });
+
+  const { error: cacheError } = await supabaseAdmin
+    .from("cached_locations")
+    .update({ data: newLocations, updated_at: new Date().toISOString() })
+    .eq("trip_id", tripId);
+  if (cacheError) throw cacheError;
+
+  await ChangeFeedService.recordLocationChanges(
+    tripId,
+    locations,
+    newLocations
+  );
+  await HistoryService.snapshot(tripId, ctx);
+  const fields = Object.keys(updates).filter((key) => key !== "id");
+  const previous = locations.find((loc) => loc.id === locationId)!;
+  await ActivityService.record(tripId, ctx, {
+    type: "location.update",
+    target: locationId,
+    summary: previous.name,
+    before: pickFields(previous, fields),
+    after: pickFields(
+      newLocations.find((loc) => loc.id === locationId)!,
+      fields
+    ),
+  });
+  await IntegrityService.check(tripId);
 
-  if (changes.length > 0) {
+  // 2. Push to Sheet: resolve row by persistent ID, map fields to columns
+  try {
+    const { auth, spreadsheetId } = await getSheetContext(tripId);
+    const rowIndex = await findLocationRow(
+      tripId,
+      auth,
+      spreadsheetId,
+      locationId
+    );
+    const colMap = await ColumnMapService.getColumnMap(
+      tripId,
+      auth,
+      spreadsheetId
+    );
+    const changes = ColumnMapService.toCellUpdates(
+      colMap,
+      rowIndex,
+      toSheetValues(updates)
+    );
+
+    if (changes.length > 0) {
+      await SheetsService.batchUpdateValues(auth, spreadsheetId, changes);
+    }
+  } catch (e: any) {
+    console.warn(
+      `[Update] Sheet write failed for ${locationId}, will retry on next sync:`,
+      e.message
+    );
+    return { success: true, pendingSync: true };
+  }
+
+  return { success: true, pendingSync: false };
+}
+
+// Resolve a sync conflict by keeping the sheet version, the app version, or
+// merging field by field (unlisted fields keep the app value).
+// The result is written to both the sheet and the cache.
+export async function resolveSyncConflict(
+  tripId: string,
+  conflictId: number,
+  strategy: "sheet" | "app" | "merge",
+  fields: Partial<Record<keyof Location, "sheet" | "app">> = {},
+  ctx: MutationContext = systemContext("resolve-conflict")
+) {
+  const conflict = await SyncConflictService.getOpen(tripId, conflictId);
+  if (!conflict) throw new Error("Conflict not found");
+
+  const {
+    sheet_data: sheet,
+    app_data: app,
+    location_id: locationId,
+  } = conflict;
+
+  let resolved: Location | null;
+  if (strategy === "sheet") {
+    resolved = sheet;
+  } else if (strategy === "app") {
+    resolved = app;
+  } else {
+    if (!sheet || !app) {
+      throw new Error("Cannot merge: location was deleted on one side");
+    }
+    resolved = { ...app };
+    for (const [field, side] of Object.entries(fields)) {
+      if (side === "sheet") (resolved as any)[field] = (sheet as any)[field];
+    }
+    resolved.id = locationId;
+  }
+
+  // 1. Write to Sheet
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const colMap = await ColumnMapService.getColumnMap(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+  const rowNumber = (
+    await getLocationRowNumbers(tripId, auth, spreadsheetId)
+  ).get(locationId);
+
+  if (resolved && rowNumber) {
     await SheetsService.batchUpdateValues(
       auth,
-      profile.spreadsheet_id,
-      changes
+      spreadsheetId,
+      ColumnMapService.toCellUpdates(colMap, rowNumber, toSheetValues(resolved))
     );
+  } else if (resolved) {
+    await SheetsService.appendRow(auth, spreadsheetId, "Locations!A1", [
+      ColumnMapService.toRow(colMap, {
+        ...toSheetValues(resolved),
+        id: locationId,
+      }),
+    ]);
+  } else if (rowNumber) {
+    await deleteSheetRows(auth, spreadsheetId, [rowNumber]);
   }
 
-  // 5. Update Cache (Optimistic)
-  // Fetch current cache, modify one item, save back
-  const { data: cache } = await supabaseAdmin
+  // 2. Write to Cache and mark the row as synced
+  const { data: cache, error } = await supabaseAdmin
     .from("cached_locations")
-    .select("data")
-    .eq("owner_id", ownerId)
+    .select("data, row_state")
+    .eq("trip_id", tripId)
     .single();
+  if (error) throw error;
+
+  const locations = (cache.data as Location[]) || [];
+  const before = [...locations];
+  const rowState = (cache.row_state as RowStateMap) || {};
+  const idx = locations.findIndex((loc) => loc.id === locationId);
+
+  if (resolved) {
+    if (idx === -1) locations.push(resolved);
+    else locations[idx] = resolved;
+    rowState[locationId] = {
+      hash: hashLocation(resolved),
+      version: conflict.base_version + 1,
+      syncedAt: new Date().toISOString(),
+    };
+  } else {
+    if (idx !== -1) locations.splice(idx, 1);
+    delete rowState[locationId];
+  }
 
-  if (cache?.data) {
-    const newLocations = (cache.data as Location[]).map((loc) => {
-      if (loc.id === locationId) {
-        return { ...loc, ...updates };
-      }
-      return loc;
+  const { error: updateError } = await supabaseAdmin
+    .from("cached_locations")
+    .update({
+      data: locations,
+      row_state: rowState,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("trip_id", tripId);
+  if (updateError) throw updateError;
+
+  await ChangeFeedService.recordLocationChanges(tripId, before, locations);
+  await HistoryService.snapshot(tripId, ctx);
+  const previous = before.find((loc) => loc.id === locationId);
+  await ActivityService.record(tripId, ctx, {
+    type: "conflict.resolve",
+    target: locationId,
+    summary: (resolved || previous || sheet || app)?.name || locationId,
+    before: previous && pickFields(previous, LOCATION_SUMMARY_FIELDS),
+    after: {
+      strategy,
+      ...(resolved
+        ? pickFields(resolved, LOCATION_SUMMARY_FIELDS)
+        : { deleted: true }),
+    },
+  });
+  await SyncConflictService.markResolved(conflictId, strategy);
+  await IntegrityService.check(tripId);
+
+  return { location: resolved };
+}
+
+// Describe how the Locations header is mapped (read-only, no header repair)
+export async function getColumnMapping(tripId: string) {
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const rows = await SheetsService.getValues(
+    auth,
+    spreadsheetId,
+    "Locations!1:1"
+  );
+  const headers: string[] = rows?.[0] || [];
+  const aliases = await ColumnMapService.getAliases(tripId);
+  const { map, sources } = ColumnMapService.detect(headers, aliases);
+
+  const columns = LOCATION_COLUMNS.map((field) => ({
+    field,
+    index: map[field],
+    column: map[field] === -1 ? null : columnLetter(map[field]),
+    header: map[field] === -1 ? null : headers[map[field]] || "",
+    source: sources[field],
+  }));
+
+  return { headers, aliases, columns };
+}
+
+// Save header aliases for a trip and re-detect with them
+export async function setColumnAliases(tripId: string, aliases: HeaderAliases) {
+  await ColumnMapService.setAliases(tripId, aliases);
+
+  const { spreadsheetId } = await getSheetContext(tripId);
+  ColumnMapService.invalidate(spreadsheetId);
+
+  return getColumnMapping(tripId);
+}
+
+// Append new Locations to the Sheet (columns resolved via the column map)
+// Each row gets its persistent ID up front; returns the new IDs.
+export async function addLocationsToSheet(
+  tripId: string,
+  locations: (Partial<Location> & { photoRef?: string })[]
+) {
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const colMap = await ColumnMapService.getColumnMap(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+
+  const ids: string[] = [];
+  const rows = locations.map((loc) => {
+    const id = generateLocationId();
+    ids.push(id);
+    return ColumnMapService.toRow(colMap, {
+      ...ColumnMapService.toColumnValues(loc),
+      id,
     });
+  });
+
+  if (rows.length > 0) {
+    await SheetsService.appendRow(auth, spreadsheetId, "Locations!A1", rows);
+  }
+
+  return ids;
+}
+
+// TRASH FUNCTIONS
 
-    await supabaseAdmin
+// Trashed rows are moved to this tab: Location ID, Deleted At, then the
+// original "Locations" cells
+const ARCHIVED_TAB = "Archived";
+
+// Append rows to the "Archived" tab, creating it on first use
+async function appendArchivedRows(
+  auth: any,
+  spreadsheetId: string,
+  locationHeaders: string[],
+  rows: string[][]
+) {
+  const metadata = await SheetsService.getMetadata(auth, spreadsheetId);
+  const exists = metadata.sheets?.some(
+    (s: any) => s.properties?.title === ARCHIVED_TAB
+  );
+  if (!exists) {
+    await SheetsService.addSheet(auth, spreadsheetId, ARCHIVED_TAB);
+    await SheetsService.updateRange(auth, spreadsheetId, `${ARCHIVED_TAB}!A1`, [
+      ["Location ID", "Deleted At", ...locationHeaders],
+    ]);
+  }
+
+  await SheetsService.appendRow(
+    auth,
+    spreadsheetId,
+    `${ARCHIVED_TAB}!A1`,
+    rows
+  );
+}
+
+// Remove rows of the given locations from the "Archived" tab (if present)
+async function removeArchivedRows(
+  auth: any,
+  spreadsheetId: string,
+  locationIds: string[]
+) {
+  let rows: string[][] | null | undefined;
+  try {
+    rows = await SheetsService.getValues(
+      auth,
+      spreadsheetId,
+      `${ARCHIVED_TAB}!A:A`
+    );
+  } catch (e) {
+    return; // Tab was removed by hand: nothing to clean up
+  }
+
+  const ids = new Set(locationIds);
+  const rowNumbers: number[] = [];
+  (rows || []).forEach((row, i) => {
+    if (i > 0 && ids.has(row[0])) rowNumbers.push(i + 1);
+  });
+  await deleteSheetRows(auth, spreadsheetId, rowNumbers, ARCHIVED_TAB);
+}
+
+// Delete Location (Soft)
+// The row moves from "Locations" to the "Archived" tab and is kept in the
+// trash until it is restored or purged (manually or after the retention
+// period). Itinerary entries pointing to it are kept and flagged.
+export async function trashLocation(
+  tripId: string,
+  locationId: string,
+  ctx: MutationContext = systemContext("trash")
+) {
+  // 1. Resolve Row by persistent ID and read its raw cells
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const colMap = await ColumnMapService.getColumnMap(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+  const rowNumber = await findLocationRow(
+    tripId,
+    auth,
+    spreadsheetId,
+    locationId
+  );
+  const [headerRow, rowValues] = await Promise.all([
+    SheetsService.getValues(auth, spreadsheetId, "Locations!1:1"),
+    SheetsService.getValues(
+      auth,
+      spreadsheetId,
+      `Locations!${rowNumber}:${rowNumber}`
+    ),
+  ]);
+  const cells: string[] = rowValues?.[0] || [];
+
+  // 2. Keep it in the trash (cached copy, or parsed from the row if the
+  // location was added since the last sync)
+  const { data: cache, error } = await supabaseAdmin
+    .from("cached_locations")
+    .select("data, row_state")
+    .eq("trip_id", tripId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const locations = (cache?.data as Location[]) || [];
+  const position = locations.findIndex((loc) => loc.id === locationId);
+  const location =
+    locations[position] ||
+    transformRowsToLocations(
+      [[], cells],
+      colMap,
+      (await TripService.getSettings(tripId)).country
+    )[0];
+
+  await TrashService.add(
+    tripId,
+    {
+      location,
+      rowValues: cells,
+      rowFields: ColumnMapService.fromRow(colMap, cells),
+      rowNumber,
+      position: position === -1 ? locations.length : position,
+    },
+    ctx
+  );
+
+  // 3. Move the row to the "Archived" tab
+  await appendArchivedRows(auth, spreadsheetId, headerRow?.[0] || [], [
+    [locationId, new Date().toISOString(), ...cells],
+  ]);
+  await deleteSheetRows(auth, spreadsheetId, [rowNumber]);
+
+  // 4. Drop it from the cache (and its sync state, so the next sync doesn't
+  // read the missing row as a deletion to reconcile)
+  if (position !== -1) {
+    const newLocations = locations.filter((loc) => loc.id !== locationId);
+    const rowState = (cache?.row_state as RowStateMap) || {};
+    delete rowState[locationId];
+
+    const { error: updateError } = await supabaseAdmin
       .from("cached_locations")
-      .update({ data: newLocations, updated_at: new Date().toISOString() })
-      .eq("owner_id", ownerId);
+      .update({
+        data: newLocations,
+        row_state: rowState,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("trip_id", tripId);
+    if (updateError) throw updateError;
+
+    await ChangeFeedService.recordLocationChanges(
+      tripId,
+      locations,
+      newLocations
+    );
+    await HistoryService.snapshot(tripId, ctx);
   }
+  await ActivityService.record(tripId, ctx, {
+    type: "location.delete",
+    target: locationId,
+    summary: location.name,
+    before: pickFields(location, LOCATION_SUMMARY_FIELDS),
+  });
+  await IntegrityService.check(tripId);
 
   return { success: true };
 }
 
-// Delete Location (Delete Row)
-export async function deleteLocationInSheet(
-  ownerId: string,
-  locationId: string
+// Restore a trashed location to its original row (or the end of the list if
+// the sheet has shrunk since), in both the sheet and the cache
+export async function restoreTrashedLocation(
+  tripId: string,
+  locationId: string,
+  ctx: MutationContext = systemContext("trash-restore")
 ) {
-  // 1. Get User Profile
-  const { data: profile, error } = await supabaseAdmin
-    .from("profiles")
-    .select("google_refresh_token, spreadsheet_id")
-    .eq("id", ownerId)
-    .single();
+  const entry = await TrashService.get(tripId, locationId);
 
-  if (error || !profile?.spreadsheet_id || !profile?.google_refresh_token) {
-    throw new Error("User profile incomplete.");
+  // 1. Put the row back into "Locations"
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const colMap = await ColumnMapService.getColumnMap(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+  const rows =
+    (await SheetsService.getValues(auth, spreadsheetId, "Locations")) || [];
+  if (rows.some((row, i) => i > 0 && row[colMap.id] === locationId)) {
+    throw new Error("Location already exists");
   }
+  // Rebuilt by field, so columns reordered or added since land correctly.
+  // Entries trashed before fields were stored fall back to the cached data.
+  const cells = ColumnMapService.toRow(colMap, {
+    ...(entry.row_fields || toSheetValues(entry.data)),
+    id: locationId,
+  });
 
-  // 2. Parse Row Index (loc-0 -> Row 2)
-  // Row 2 is index 1 for deletion (Requests are 0-indexed)
-  // loc-0 means index 0 in the "data" array (from slice(1)).
-  // So Row 2.
-  // 0-based deleteDimension index: Row 1 = 0, Row 2 = 1.
-  // So index = parseInt(id) + 1.
-  const idNum = parseInt(locationId.replace("loc-", ""));
-  if (isNaN(idNum)) throw new Error("Invalid Location ID");
+  if (entry.row_number <= rows.length) {
+    const sheetId = await getGridId(auth, spreadsheetId);
+    await SheetsService.insertRows(
+      auth,
+      spreadsheetId,
+      sheetId,
+      entry.row_number - 1,
+      entry.row_number
+    );
+    await SheetsService.updateRange(
+      auth,
+      spreadsheetId,
+      `Locations!A${entry.row_number}`,
+      [cells]
+    );
+  } else {
+    await SheetsService.appendRow(auth, spreadsheetId, "Locations!A1", [cells]);
+  }
+
+  await removeArchivedRows(auth, spreadsheetId, [locationId]);
 
-  const startIndex = idNum + 1; // e.g. loc-0 -> Row 2 -> Index 1
-  const endIndex = startIndex + 1; // Exclusive
+  // 2. Put it back into the cache, marked as synced
+  const { data: cache, error } = await supabaseAdmin
+    .from("cached_locations")
+    .select("data, row_state")
+    .eq("trip_id", tripId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const locations = (cache?.data as Location[]) || [];
+  const rowState = (cache?.row_state as RowStateMap) || {};
+  const newLocations = [...locations];
+  newLocations.splice(
+    Math.min(entry.position, newLocations.length),
+    0,
+    entry.data
+  );
+  rowState[locationId] = {
+    hash: hashLocation(entry.data),
+    version: 1,
+    syncedAt: new Date().toISOString(),
+  };
 
-  // 3. Decrypt & Auth
-  const refreshToken = decrypt(profile.google_refresh_token);
-  const auth = SheetsService.getAuthClient(refreshToken);
+  const { error: upsertError } = await supabaseAdmin
+    .from("cached_locations")
+    .upsert(
+      {
+        trip_id: tripId,
+        sheet_id: spreadsheetId,
+        data: newLocations,
+        row_state: rowState,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "trip_id" }
+    );
+  if (upsertError) throw upsertError;
 
-  // 4. Get Sheet ID (Grid ID)
-  const metadata = await SheetsService.getMetadata(
-    auth,
-    profile.spreadsheet_id
+  await TrashService.remove(tripId, [locationId]);
+  await ChangeFeedService.recordLocationChanges(
+    tripId,
+    locations,
+    newLocations
   );
-  const sheet =
-    metadata.sheets?.find((s: any) => s.properties?.title === "Locations") ||
-    metadata.sheets?.[0]; // Default to first sheet if "Locations" not found (Legacy)
+  await HistoryService.snapshot(tripId, ctx);
+  await ActivityService.record(tripId, ctx, {
+    type: "location.restore",
+    target: locationId,
+    summary: entry.data.name,
+    after: pickFields(entry.data, LOCATION_SUMMARY_FIELDS),
+  });
+  await IntegrityService.check(tripId);
 
-  if (
-    !sheet ||
-    !sheet.properties ||
-    typeof sheet.properties.sheetId === "undefined" ||
-    sheet.properties.sheetId === null
-  ) {
-    throw new Error("Could not find sheet to delete from");
+  return { success: true, location: entry.data };
+}
+
+// Permanently delete trashed locations (trash entry and "Archived" row)
+export async function purgeTrashedLocations(
+  tripId: string,
+  locationIds: string[]
+) {
+  if (locationIds.length === 0) return 0;
+
+  try {
+    const { auth, spreadsheetId } = await getSheetContext(tripId);
+    await removeArchivedRows(auth, spreadsheetId, locationIds);
+  } catch (e: any) {
+    // The trash entry is what matters; a stale archive row is harmless
+    console.warn(
+      `[Trash] Could not clean up the Archived tab of ${tripId}:`,
+      e.message
+    );
   }
 
-  const sheetId: number = sheet.properties.sheetId;
+  await TrashService.remove(tripId, locationIds);
+  return locationIds.length;
+}
 
-  // 5. Delete Row
-  await SheetsService.deleteRows(
-    auth,
-    profile.spreadsheet_id,
-    sheetId,
-    startIndex,
-    endIndex
+// Purge everything trashed longer ago than the retention period (cron)
+export async function purgeExpiredTrash() {
+  const cutoff = new Date(
+    Date.now() - CONFIG.TRASH.RETENTION_DAYS * 24 * 60 * 60 * 1000
   );
+  const expired = await TrashService.listExpired(cutoff);
 
-  // 6. Sync to update IDs and Cache
-  await syncSheetToDb(ownerId);
+  const byTrip = new Map<string, string[]>();
+  for (const { trip_id, location_id } of expired) {
+    byTrip.set(trip_id, [...(byTrip.get(trip_id) || []), location_id]);
+  }
 
-  return { success: true };
+  let purged = 0;
+  for (const [tripId, locationIds] of byTrip) {
+    purged += await purgeTrashedLocations(tripId, locationIds);
+  }
+  return purged;
 }
 
 // Disconnect Sheet
-export async function disconnectSheet(ownerId: string) {
-  // 1. Clear profile spreadsheet_id
+export async function disconnectSheet(
+  tripId: string,
+  ctx: MutationContext = systemContext("disconnect")
+) {
+  const trip = await TripService.getTrip(tripId);
+  if (trip?.spreadsheet_id) {
+    ColumnMapService.invalidate(trip.spreadsheet_id);
+  }
+
+  // 1. Clear trip spreadsheet_id
   await supabaseAdmin
-    .from("profiles")
-    .update({ spreadsheet_id: null })
-    .eq("id", ownerId);
+    .from("trips")
+    .update({ spreadsheet_id: null, updated_at: new Date().toISOString() })
+    .eq("id", tripId);
 
   // 2. Delete cache
-  await supabaseAdmin.from("cached_locations").delete().eq("owner_id", ownerId);
+  const previous = await getLocationsFromDb(tripId);
+  await supabaseAdmin.from("cached_locations").delete().eq("trip_id", tripId);
+  await ChangeFeedService.recordLocationChanges(tripId, previous, []);
+  await HistoryService.snapshot(tripId, ctx);
+  await ActivityService.record(tripId, ctx, {
+    type: "sheet.disconnect",
+    target: trip?.spreadsheet_id || null,
+    summary: trip?.name || tripId,
+    before: {
+      spreadsheetId: trip?.spreadsheet_id || null,
+      locations: previous.length,
+    },
+    after: { spreadsheetId: null, locations: 0 },
+  });
+  await IntegrityService.check(tripId);
 
   return { success: true };
 }
@@ -526,52 +1150,116 @@ export async function disconnectSheet(ownerId: string) {
 
 // ITINERARY FUNCTIONS
 
+// Itinerary tab layout
+const ITINERARY_HEADERS = [
+  "Day",
+  "Location ID",
+  "Order",
+  "Notes",
+  "Item ID",
+  "Date",
+  "Start Time",
+  "Duration (min)",
+  "Fixed Time",
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const isChecked = (cell: string | undefined) =>
+  /^(true|yes|y|x|1|✓)$/i.test((cell || "").trim());
+
+// Generate a new persistent Itinerary Item ID
+export function generateItineraryItemId() {
+  return `itm-${nanoid(10)}`;
+}
+
+// A1 range in a tab, quoted for names with spaces ('Plan - Rainy day'!A:I)
+const tabRange = (tab: string, range: string) =>
+  `'${tab.replace(/'/g, "''")}'!${range}`;
+
 // Transform Itinerary Rows
-function transformRowsToItinerary(rows: string[][]) {
-  // Header: Day (A), LocationId (B), Order (C), Note (D)
-  return rows
-    .slice(1)
-    .map((row, idx) => ({
-      day: row[0] || "Unscheduled",
-      locationId: row[1] || "",
+// Rows without an Item ID get one; returns the cell writes to persist them.
+// Dates come from the Date column, or from the day label and trip start.
+function transformRowsToItinerary(
+  rows: string[][],
+  startDate: string | null,
+  tab = "Itinerary"
+) {
+  // Header: Day (A), LocationId (B), Order (C), Note (D), Item ID (E),
+  // Date (F), Start Time (G), Duration (H), Fixed Time (I)
+  const idWrites: { range: string; values: any[][] }[] = [];
+  const seen = new Set<string>();
+
+  const items: ItineraryItem[] = [];
+  rows.slice(1).forEach((row, idx) => {
+    if (!row[1]) return; // Only keeps rows with valid Location IDs
+
+    let id = row[4];
+    if (!id || seen.has(id)) {
+      id = generateItineraryItemId();
+      idWrites.push({ range: tabRange(tab, `E${idx + 2}`), values: [[id]] });
+    }
+    seen.add(id);
+
+    const date = ISO_DATE.test((row[5] || "").trim()) ? row[5].trim() : null;
+    const day = row[0] || date || UNSCHEDULED_DAY;
+    const start = parseTime(row[6]);
+    const duration = parseInt(row[7]);
+
+    items.push({
+      id,
+      day,
+      locationId: row[1],
       order: row[2] ? parseInt(row[2]) : idx,
       note: row[3] || "",
-    }))
-    .filter((item) => item.locationId); // Only keeps rows with valid Location IDs
+      date: date || dayDate(day, startDate),
+      startTime: start === null ? null : formatTime(start),
+      durationMinutes: duration > 0 ? duration : null,
+      fixedTime: start !== null && isChecked(row[8]),
+    });
+  });
+
+  return { items, idWrites };
 }
 
-// Sync Itinerary
-export async function syncItinerary(ownerId: string) {
-  const { data: profile, error } = await supabaseAdmin
-    .from("profiles")
-    .select("google_refresh_token, spreadsheet_id")
-    .eq("id", ownerId)
-    .single();
+// Activity entry for a changed itinerary, with item counts
+async function recordItineraryActivity(
+  tripId: string,
+  ctx: MutationContext,
+  type: ActivityType,
+  previous: ItineraryItem[],
+  next: ItineraryItem[]
+) {
+  await ActivityService.record(tripId, ctx, {
+    type,
+    summary: `${next.length} items`,
+    before: { items: previous.length },
+    after: { items: next.length, ...countChanges(previous, next) },
+  });
+}
 
-  if (error || !profile?.spreadsheet_id || !profile?.google_refresh_token) {
-    throw new Error("User profile incomplete.");
-  }
+// Sync Itinerary
+export async function syncItinerary(
+  tripId: string,
+  ctx: MutationContext = systemContext("itinerary-sync")
+) {
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
 
-  const refreshToken = decrypt(profile.google_refresh_token);
-  const auth = SheetsService.getAuthClient(refreshToken);
+  const { startDate } = await TripService.getSettings(tripId);
 
   // 1. Ensure Tab Exists (by trying to read it)
   let rows = await SheetsService.getValues(
     auth,
-    profile.spreadsheet_id,
-    "Itinerary!A:D"
+    spreadsheetId,
+    "Itinerary!A:I"
   );
 
   // If null, it might not exist. Create it.
   if (!rows) {
     console.log("[Sync] Itinerary sheet missing, creating...");
     try {
-      await SheetsService.updateRange(
-        auth,
-        profile.spreadsheet_id,
-        "Itinerary!A1:D1",
-        [["Day", "Location ID", "Order", "Notes"]]
-      );
+      await SheetsService.updateRange(auth, spreadsheetId, "Itinerary!A1:I1", [
+        ITINERARY_HEADERS,
+      ]);
       rows = []; // Empty initially
     } catch (e) {
       console.error("Failed to create Itinerary tab", e);
@@ -582,76 +1270,459 @@ export async function syncItinerary(ownerId: string) {
     }
   }
 
-  const itineraryData = rows ? transformRowsToItinerary(rows) : [];
+  const { items: itineraryData, idWrites } = rows
+    ? transformRowsToItinerary(rows, startDate)
+    : { items: [], idWrites: [] };
+
+  // Persist IDs assigned to legacy rows, and add the schedule columns to
+  // tabs created before they existed
+  const missingHeaders =
+    !!rows?.length && (rows[0] || []).length < ITINERARY_HEADERS.length;
+  if (idWrites.length > 0 || missingHeaders) {
+    await SheetsService.batchUpdateValues(auth, spreadsheetId, [
+      { range: "Itinerary!E1:I1", values: [ITINERARY_HEADERS.slice(4)] },
+      ...idWrites,
+    ]);
+  }
+
+  const previous = await getItineraryFromDb(tripId);
 
   // Update Cache
   const { error: upsertError } = await supabaseAdmin
     .from("cached_itineraries")
     .upsert(
       {
-        owner_id: ownerId,
-        sheet_id: profile.spreadsheet_id,
+        trip_id: tripId,
+        sheet_id: spreadsheetId,
         data: itineraryData,
+        etag: itineraryEtag(itineraryData),
         updated_at: new Date().toISOString(),
       },
-      { onConflict: "owner_id" }
+      { onConflict: "trip_id" }
     );
 
   if (upsertError) throw upsertError;
 
+  await ChangeFeedService.recordItineraryChanges(
+    tripId,
+    previous,
+    itineraryData
+  );
+  await ChangeFeedService.recordSync(tripId);
+  await HistoryService.snapshot(tripId, ctx);
+  // Reading the sheet is also how clients load the itinerary: only a sync
+  // that changed something is worth an entry (ETags ignore key order, so
+  // the cache read back from jsonb compares equal to unchanged sheet data)
+  if (itineraryEtag(previous) !== itineraryEtag(itineraryData)) {
+    await recordItineraryActivity(
+      tripId,
+      ctx,
+      "itinerary.sync",
+      previous,
+      itineraryData
+    );
+  }
+  await IntegrityService.check(tripId);
+
   return itineraryData;
 }
 
-export async function getItineraryFromDb(ownerId: string) {
+export async function getItineraryFromDb(
+  tripId: string
+): Promise<ItineraryItem[]> {
   const { data, error } = await supabaseAdmin
     .from("cached_itineraries")
     .select("data")
-    .eq("owner_id", ownerId)
+    .eq("trip_id", tripId)
     .single();
 
   if (error && error.code !== "PGRST116") throw error;
   return data?.data || [];
 }
 
-// Update Itinerary (Full Rewrite of Sheet for consistency)
-// This is called after Drag & Drop. We receive the FULL new state.
-export async function updateItineraryInSheet(
-  ownerId: string,
-  itineraryItems: any[]
-) {
-  const { data: profile } = await supabaseAdmin
-    .from("profiles")
-    .select("google_refresh_token, spreadsheet_id")
-    .eq("id", ownerId)
-    .single();
-
-  if (!profile || !profile.google_refresh_token || !profile.spreadsheet_id) {
-    throw new Error("No profile or missing sheet/token");
-  }
+// ETag of an itinerary: changes whenever any item does. Hashed over
+// canonical JSON, so items read back from jsonb get the same ETag as the
+// objects they were written from.
+export function itineraryEtag(items: ItineraryItem[]) {
+  return crypto
+    .createHash("sha1")
+    .update(canonicalJson(items))
+    .digest("hex")
+    .slice(0, 16);
+}
 
-  const refreshToken = decrypt(profile.google_refresh_token);
-  const auth = SheetsService.getAuthClient(refreshToken);
+// Cached itinerary with its ETag, computed from the content so caches
+// written before ETags were stored match too. `storedEtag` is the column
+// value compare-and-swap writes are conditioned on.
+export async function getItineraryState(tripId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("cached_itineraries")
+    .select("data, etag")
+    .eq("trip_id", tripId)
+    .maybeSingle();
 
-  // Convert to Rows
-  // We overwrite the whole sheet range to ensure order is correct
-  // Sorted by Day then Order
-  const sortedItems = [...itineraryItems].sort((a, b) => {
-    if (a.day !== b.day) return a.day.localeCompare(b.day);
-    return a.order - b.order;
-  });
+  if (error) throw error;
+  const items: ItineraryItem[] = data?.data || [];
+  return {
+    items,
+    etag: itineraryEtag(items),
+    storedEtag: (data?.etag as string | null) ?? null,
+    exists: !!data,
+  };
+}
 
-  const rows = sortedItems.map((item) => [
+// One itinerary row (A:I)
+function toItineraryRow(item: ItineraryItem) {
+  return [
     item.day,
     item.locationId,
     item.order,
     item.note,
-  ]);
+    item.id,
+    item.date || "",
+    item.startTime || "",
+    item.durationMinutes || "",
+    item.fixedTime ? "TRUE" : "",
+  ];
+}
 
-  // 1. Check if "Itinerary" tab exists
-  const metadata = await SheetsService.getMetadata(
+// Fill defaults of a new or edited item (ID, resolved date, time flags)
+export function normalizeItineraryItem(
+  item: Omit<ItineraryItem, "id" | "note"> & { id?: string; note?: string },
+  startDate: string | null
+): ItineraryItem {
+  return {
+    ...item,
+    id: item.id || generateItineraryItemId(),
+    note: item.note || "",
+    date: item.date || dayDate(item.day, startDate),
+    startTime: item.startTime || null,
+    durationMinutes: item.durationMinutes || null,
+    fixedTime: !!item.startTime && !!item.fixedTime,
+  };
+}
+
+export type ItineraryItemInput = Omit<ItineraryItem, "id" | "note"> & {
+  note?: string;
+};
+
+export type ItineraryPatchResult =
+  | { status: "ok"; items: ItineraryItem[]; etag: string; pendingSync: boolean }
+  | { status: "conflict"; items: ItineraryItem[]; etag: string }
+  | { status: "invalid"; error: string; [detail: string]: any };
+
+// Replace the cached itinerary only if it is still the one in `state`
+// (conditional on the stored ETag). Returns false if another write got there
+// first.
+async function swapItineraryCache(
+  tripId: string,
+  spreadsheetId: string,
+  state: Awaited<ReturnType<typeof getItineraryState>>,
+  items: ItineraryItem[]
+) {
+  const values = {
+    data: items,
+    etag: itineraryEtag(items),
+    updated_at: new Date().toISOString(),
+  };
+
+  if (!state.exists) {
+    const { error } = await supabaseAdmin
+      .from("cached_itineraries")
+      .insert({ ...values, trip_id: tripId, sheet_id: spreadsheetId });
+    if (error && error.code !== "23505") throw error;
+    return !error;
+  }
+
+  let query = supabaseAdmin
+    .from("cached_itineraries")
+    .update(values)
+    .eq("trip_id", tripId);
+  query =
+    state.storedEtag === null
+      ? query.is("etag", null)
+      : query.eq("etag", state.storedEtag);
+  const { data, error } = await query.select("trip_id");
+  if (error) throw error;
+  return !!data?.length;
+}
+
+// Apply a change to the itinerary if it is still at `expectedEtag`.
+// The cache is written first with a compare-and-swap on the ETag, so two
+// concurrent edits can't both win; then only the rows that changed are
+// patched in the sheet (updated in place, appended or deleted).
+async function commitItineraryChange(
+  tripId: string,
+  expectedEtag: string,
+  change: (items: ItineraryItem[], startDate: string | null) => ItineraryItem[],
+  ctx: MutationContext
+): Promise<ItineraryPatchResult> {
+  const { startDate, endDate } = await TripService.getSettings(tripId);
+  const state = await getItineraryState(tripId);
+  if (state.etag !== expectedEtag) {
+    return { status: "conflict", items: state.items, etag: state.etag };
+  }
+
+  const next = sortItinerary(change(state.items, startDate), startDate);
+  const problem = checkSchedule(next, startDate, endDate);
+  if (problem) return { status: "invalid", ...problem };
+
+  // 1. Cache (compare-and-swap)
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const etag = itineraryEtag(next);
+  if (!(await swapItineraryCache(tripId, spreadsheetId, state, next))) {
+    const current = await getItineraryState(tripId);
+    return { status: "conflict", items: current.items, etag: current.etag };
+  }
+
+  await ChangeFeedService.recordItineraryChanges(tripId, state.items, next);
+  await HistoryService.snapshot(tripId, ctx);
+  await recordItineraryActivity(
+    tripId,
+    ctx,
+    "itinerary.update",
+    state.items,
+    next
+  );
+  await IntegrityService.check(tripId);
+
+  // 2. Sheet, row by row
+  let pendingSync = false;
+  try {
+    await patchItineraryRows(auth, spreadsheetId, state.items, next);
+  } catch (e: any) {
+    console.warn(
+      `[Itinerary] Sheet patch failed for trip ${tripId}, its rows stay behind until they change again:`,
+      e.message
+    );
+    pendingSync = true;
+  }
+
+  return { status: "ok", items: next, etag, pendingSync };
+}
+
+// Write only the itinerary rows that differ between two states
+async function patchItineraryRows(
+  auth: any,
+  spreadsheetId: string,
+  before: ItineraryItem[],
+  after: ItineraryItem[]
+) {
+  const previous = new Map(before.map((item) => [item.id, item]));
+  const current = new Set(after.map((item) => item.id));
+
+  const changed = after.filter(
+    (item) =>
+      previous.has(item.id) &&
+      canonicalJson(previous.get(item.id)) !== canonicalJson(item)
+  );
+  const added = after.filter((item) => !previous.has(item.id));
+  const removed = before.filter((item) => !current.has(item.id));
+  if (changed.length + added.length + removed.length === 0) return;
+
+  // Rows by Item ID (column E)
+  const ids = await SheetsService.getValues(
+    auth,
+    spreadsheetId,
+    "Itinerary!E:E"
+  );
+  const rowById = new Map<string, number>();
+  (ids || []).forEach((row, i) => {
+    if (i > 0 && row[0]) rowById.set(row[0], i + 1);
+  });
+
+  // Items missing from the sheet (edited there meanwhile) are re-added
+  const updates = changed.filter((item) => rowById.has(item.id));
+  const appends = [
+    ...added,
+    ...changed.filter((item) => !rowById.has(item.id)),
+  ];
+
+  if (updates.length > 0) {
+    await SheetsService.batchUpdateValues(
+      auth,
+      spreadsheetId,
+      updates.map((item) => {
+        const row = rowById.get(item.id)!;
+        return {
+          range: `Itinerary!A${row}:I${row}`,
+          values: [toItineraryRow(item)],
+        };
+      })
+    );
+  }
+  if (appends.length > 0) {
+    await SheetsService.appendRow(
+      auth,
+      spreadsheetId,
+      "Itinerary!A1",
+      appends.map(toItineraryRow)
+    );
+  }
+  await deleteSheetRows(
     auth,
-    profile.spreadsheet_id
+    spreadsheetId,
+    removed
+      .map((item) => rowById.get(item.id))
+      .filter((row): row is number => !!row),
+    "Itinerary"
+  );
+}
+
+// Add one item (appended to its day unless an order is given)
+export async function addItineraryItem(
+  tripId: string,
+  input: Omit<ItineraryItemInput, "order"> & { order?: number },
+  expectedEtag: string,
+  ctx: MutationContext = systemContext("itinerary-add")
+) {
+  let added: ItineraryItem | null = null;
+  const result = await commitItineraryChange(
+    tripId,
+    expectedEtag,
+    (items, startDate) => {
+      const sameDay = items.filter((item) => item.day === input.day);
+      const order =
+        input.order ?? Math.max(0, ...sameDay.map((item) => item.order)) + 1;
+      added = normalizeItineraryItem({ ...input, order }, startDate);
+      return [...items, added];
+    },
+    ctx
   );
+  return { ...result, item: added as ItineraryItem | null };
+}
+
+// Change fields of one item (day and order included)
+export async function updateItineraryItem(
+  tripId: string,
+  itemId: string,
+  changes: Partial<ItineraryItemInput>,
+  expectedEtag: string,
+  ctx: MutationContext = systemContext("itinerary-item-update")
+) {
+  let updated: ItineraryItem | null = null;
+  const result = await commitItineraryChange(
+    tripId,
+    expectedEtag,
+    (items, startDate) => {
+      if (!items.some((item) => item.id === itemId)) {
+        throw new Error("Item not found");
+      }
+      return items.map((item) => {
+        if (item.id !== itemId) return item;
+        // A new day without a date resolves its own date
+        const date =
+          changes.day !== undefined && changes.date === undefined
+            ? null
+            : changes.date ?? item.date;
+        updated = normalizeItineraryItem(
+          { ...item, ...changes, date, id: item.id },
+          startDate
+        );
+        return updated;
+      });
+    },
+    ctx
+  );
+  return { ...result, item: updated as ItineraryItem | null };
+}
+
+// Move one item to a day and position; the other items of that day are
+// renumbered 1..n around it
+export async function moveItineraryItem(
+  tripId: string,
+  itemId: string,
+  target: { day: string; position: number; date?: string | null },
+  expectedEtag: string,
+  ctx: MutationContext = systemContext("itinerary-move")
+) {
+  return commitItineraryChange(
+    tripId,
+    expectedEtag,
+    (items, startDate) => {
+      const moving = items.find((item) => item.id === itemId);
+      if (!moving) throw new Error("Item not found");
+
+      const moved = normalizeItineraryItem(
+        { ...moving, day: target.day, date: target.date ?? null },
+        startDate
+      );
+      const dayItems = sortItinerary(
+        items.filter((item) => item.day === target.day && item.id !== itemId),
+        startDate
+      );
+      const index = Math.max(0, Math.min(target.position - 1, dayItems.length));
+      dayItems.splice(index, 0, moved);
+
+      const renumbered = new Map(
+        dayItems.map((item, i) => [item.id, { ...item, order: i + 1 }])
+      );
+      return items.map((item) => renumbered.get(item.id) || item);
+    },
+    ctx
+  );
+}
+
+// Remove one item
+export async function removeItineraryItem(
+  tripId: string,
+  itemId: string,
+  expectedEtag: string,
+  ctx: MutationContext = systemContext("itinerary-remove")
+) {
+  return commitItineraryChange(
+    tripId,
+    expectedEtag,
+    (items) => {
+      if (!items.some((item) => item.id === itemId)) {
+        throw new Error("Item not found");
+      }
+      return items.filter((item) => item.id !== itemId);
+    },
+    ctx
+  );
+}
+
+// Update Itinerary: we receive the FULL new state (e.g. after Drag & Drop).
+// Items without an ID (newly added cards) are assigned one. Only the rows
+// that differ from the cached itinerary are written, like item operations,
+// so rows changed by someone else meanwhile aren't overwritten.
+export async function updateItineraryInSheet(
+  tripId: string,
+  itineraryItems: (Omit<ItineraryItem, "id" | "note"> & {
+    id?: string;
+    note?: string;
+  })[],
+  ctx: MutationContext = systemContext("itinerary-update"),
+  expectedEtag?: string // Refuse ("Itinerary changed") if no longer current
+) {
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+
+  const state = await getItineraryState(tripId);
+  if (expectedEtag && state.etag !== expectedEtag) {
+    throw new Error("Itinerary changed");
+  }
+
+  // Sorted chronologically: by date/day, then start time (see sortItinerary)
+  const { startDate } = await TripService.getSettings(tripId);
+  const sortedItems: ItineraryItem[] = sortItinerary(
+    itineraryItems.map((item) => normalizeItineraryItem(item, startDate)),
+    startDate
+  );
+
+  const etag = itineraryEtag(sortedItems);
+
+  // With an expected ETag the cache is claimed first (compare-and-swap), so
+  // an edit made since the check can't be overwritten
+  if (
+    expectedEtag &&
+    !(await swapItineraryCache(tripId, spreadsheetId, state, sortedItems))
+  ) {
+    throw new Error("Itinerary changed");
+  }
+
+  // 1. Check if "Itinerary" tab exists
+  const metadata = await SheetsService.getMetadata(auth, spreadsheetId);
   const itinerarySheet = metadata.sheets?.find(
     (s: any) => s.properties?.title === "Itinerary"
   );
@@ -659,14 +1730,11 @@ export async function updateItineraryInSheet(
   if (!itinerarySheet) {
     console.log("[Sync] Itinerary sheet missing during update, creating...");
     try {
-      await SheetsService.addSheet(auth, profile.spreadsheet_id, "Itinerary");
+      await SheetsService.addSheet(auth, spreadsheetId, "Itinerary");
       // Initialize Headers
-      await SheetsService.updateRange(
-        auth,
-        profile.spreadsheet_id,
-        "Itinerary!A1:D1",
-        [["Day", "Location ID", "Order", "Notes"]]
-      );
+      await SheetsService.updateRange(auth, spreadsheetId, "Itinerary!A1:I1", [
+        ITINERARY_HEADERS,
+      ]);
     } catch (e: any) {
       // If it fails because it already exists (race condition?), ignore
       if (!e.message?.includes("already exists")) {
@@ -674,32 +1742,225 @@ export async function updateItineraryInSheet(
         throw new Error("Failed to create Itinerary sheet");
       }
     }
+
+    // 2. A new tab gets every row
+    const rows = sortedItems.map(toItineraryRow);
+    if (rows.length > 0) {
+      const range = `Itinerary!A2:I${rows.length + 1}`;
+      await SheetsService.updateRange(auth, spreadsheetId, range, rows);
+    }
+  } else {
+    // Making sure new columns have a header
+    await SheetsService.updateRange(auth, spreadsheetId, "Itinerary!A1:I1", [
+      ITINERARY_HEADERS,
+    ]);
+
+    // 2. Otherwise only the rows that changed since the cached state
+    await patchItineraryRows(auth, spreadsheetId, state.items, sortedItems);
+  }
+
+  // Update Cache (already done above when conditional)
+  if (!expectedEtag) {
+    const { error } = await supabaseAdmin.from("cached_itineraries").upsert(
+      {
+        trip_id: tripId,
+        sheet_id: spreadsheetId,
+        data: sortedItems,
+        etag,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "trip_id" }
+    );
+    if (error) throw error;
+  }
+  await ChangeFeedService.recordItineraryChanges(
+    tripId,
+    state.items,
+    sortedItems
+  );
+  await HistoryService.snapshot(tripId, ctx);
+  await recordItineraryActivity(
+    tripId,
+    ctx,
+    "itinerary.update",
+    state.items,
+    sortedItems
+  );
+  await IntegrityService.check(tripId);
+
+  return { success: true, items: sortedItems, etag };
+}
+
+// Read an itinerary-shaped tab other than "Itinerary" (e.g. a plan's tab).
+// Returns null if the tab doesn't exist. Rows without an Item ID get one.
+export async function readItineraryTab(tripId: string, tab: string) {
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const { startDate } = await TripService.getSettings(tripId);
+
+  let rows: string[][];
+  try {
+    rows =
+      (await SheetsService.getValues(
+        auth,
+        spreadsheetId,
+        tabRange(tab, "A:I")
+      )) || [];
+  } catch (e: any) {
+    if (e.message?.includes("Unable to parse range")) return null;
+    throw e;
+  }
+
+  const { items, idWrites } = transformRowsToItinerary(rows, startDate, tab);
+  if (idWrites.length > 0) {
+    await SheetsService.batchUpdateValues(auth, spreadsheetId, idWrites);
+  }
+  return sortItinerary(items, startDate);
+}
+
+// Replace the rows of an itinerary-shaped tab, creating it if needed
+export async function writeItineraryTab(
+  tripId: string,
+  tab: string,
+  items: ItineraryItem[]
+) {
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+
+  const metadata = await SheetsService.getMetadata(auth, spreadsheetId);
+  const exists = metadata.sheets?.some((s: any) => s.properties?.title === tab);
+  if (!exists) {
+    await SheetsService.addSheet(auth, spreadsheetId, tab);
   } else {
-    // If it exists, clear it to clean up old data
-    // We only clear A2:D (keeping headers)
+    await SheetsService.clearValues(auth, spreadsheetId, tabRange(tab, "A:I"));
+  }
+
+  await SheetsService.updateRange(
+    auth,
+    spreadsheetId,
+    tabRange(tab, `A1:I${items.length + 1}`),
+    [ITINERARY_HEADERS, ...items.map(toItineraryRow)]
+  );
+}
+
+// Delete a tab (no-op if it doesn't exist)
+export async function deleteSheetTab(tripId: string, tab: string) {
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const metadata = await SheetsService.getMetadata(auth, spreadsheetId);
+  const sheet = metadata.sheets?.find((s: any) => s.properties?.title === tab);
+  const sheetId = sheet?.properties?.sheetId;
+  if (sheetId === undefined || sheetId === null) return;
+  await SheetsService.deleteSheet(auth, spreadsheetId, sheetId);
+}
+
+// Restore a trip's locations and itinerary to a stored version.
+// Both the Google Sheet and the cache are rewritten; the restore itself is
+// recorded as a new version, so it can be undone the same way.
+export async function restoreTripVersion(
+  tripId: string,
+  versionId: number,
+  ctx: MutationContext = systemContext("restore")
+) {
+  const version = await HistoryService.getVersion(tripId, versionId);
+  const locations: Location[] = version.locations || [];
+
+  // 1. Rewrite the Locations tab (header row is kept)
+  const { auth, spreadsheetId } = await getSheetContext(tripId);
+  const colMap = await ColumnMapService.getColumnMap(
+    tripId,
+    auth,
+    spreadsheetId
+  );
+  // Each location keeps the cells of columns we don't map (notes, extra
+  // columns added by the user) from its current row, if it still has one
+  const current =
+    (await SheetsService.getValues(auth, spreadsheetId, "Locations")) || [];
+  const currentById = new Map<string, string[]>();
+  current.forEach((row, i) => {
+    if (i > 0 && row[colMap.id]) currentById.set(row[colMap.id], row);
+  });
+  const width = Math.max(
+    Math.max(...Object.values(colMap)) + 1,
+    ...current.map((row) => row.length)
+  );
+  const rows = locations.map((loc) => {
+    const values = { ...toSheetValues(loc), id: loc.id };
+    const row = [...(currentById.get(loc.id) || [])];
+    while (row.length < width) row.push("");
+    for (const col of LOCATION_COLUMNS) {
+      if (colMap[col] !== -1) row[colMap[col]] = values[col] ?? "";
+    }
+    return row;
+  });
+
+  if (rows.length > 0) {
+    await SheetsService.updateRange(auth, spreadsheetId, "Locations!A2", rows);
+  }
+  // Rows past the restored list (whole rows, every column)
+  if (current.length > rows.length + 1) {
     await SheetsService.clearValues(
       auth,
-      profile.spreadsheet_id,
-      "Itinerary!A2:D"
+      spreadsheetId,
+      `Locations!${rows.length + 2}:${current.length}`
     );
   }
 
-  // 2. Write new data (if any)
-  if (rows.length > 0) {
-    const range = `Itinerary!A2:D${rows.length + 1}`;
-    await SheetsService.updateRange(auth, profile.spreadsheet_id, range, rows);
+  // 2. Replace the cache; sheet and app agree again, so every row is synced
+  const { data: cache } = await supabaseAdmin
+    .from("cached_locations")
+    .select("data, row_state")
+    .eq("trip_id", tripId)
+    .maybeSingle();
+  const previous = (cache?.data as Location[]) || [];
+  const previousState = (cache?.row_state as RowStateMap) || {};
+
+  const now = new Date().toISOString();
+  const rowState: RowStateMap = {};
+  for (const loc of locations) {
+    rowState[loc.id] = {
+      hash: hashLocation(loc),
+      version: (previousState[loc.id]?.version || 0) + 1,
+      syncedAt: now,
+    };
   }
 
-  // Update Cache
-  await supabaseAdmin.from("cached_itineraries").upsert(
+  const { error } = await supabaseAdmin.from("cached_locations").upsert(
     {
-      owner_id: ownerId,
-      sheet_id: profile.spreadsheet_id,
-      data: sortedItems,
-      updated_at: new Date().toISOString(),
+      trip_id: tripId,
+      sheet_id: spreadsheetId,
+      data: locations,
+      row_state: rowState,
+      updated_at: now,
     },
-    { onConflict: "owner_id" }
+    { onConflict: "trip_id" }
   );
+  if (error) throw error;
 
-  return { success: true };
+  await ChangeFeedService.recordLocationChanges(tripId, previous, locations);
+
+  // Locations brought back by the restore are no longer in the trash
+  const restoredIds = new Set(locations.map((loc) => loc.id));
+  const trash = await TrashService.list(tripId);
+  await purgeTrashedLocations(
+    tripId,
+    trash.map((entry) => entry.location_id).filter((id) => restoredIds.has(id))
+  );
+
+  // 3. Rewrite the Itinerary tab (records the new version)
+  await updateItineraryInSheet(tripId, version.itinerary || [], ctx);
+  await ActivityService.record(tripId, ctx, {
+    type: "trip.restore",
+    target: String(version.id),
+    summary: `Version ${version.id}`,
+    before: { locations: previous.length },
+    after: {
+      locations: locations.length,
+      itinerary: (version.itinerary || []).length,
+    },
+  });
+
+  return {
+    success: true,
+    restoredFrom: version.id,
+    locationCount: locations.length,
+    itineraryCount: (version.itinerary || []).length,
+  };
 }
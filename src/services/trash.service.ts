@@ -0,0 +1,140 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { ItineraryItem, Location, MutationContext } from "../types";
+import { LocationColumn } from "./columnMap.service";
+
+export interface TrashedLocation {
+  id: number;
+  trip_id: string;
+  location_id: string;
+  data: Location;
+  row_values: string[]; // Raw "Locations" cells at deletion time
+  // The same cells by field (null for entries trashed before it existed)
+  row_fields: Partial<Record<LocationColumn, string>> | null;
+  row_number: number; // 1-based sheet row at deletion time
+  position: number; // Index in the cached list at deletion time
+  actor_id: string | null;
+  actor_email: string | null;
+  deleted_at: string;
+}
+
+export class TrashService {
+  /**
+   * List trashed locations of a trip (most recently deleted first).
+   */
+  static async list(tripId: string): Promise<TrashedLocation[]> {
+    const { data, error } = await supabase
+      .from("trashed_locations")
+      .select("*")
+      .eq("trip_id", tripId)
+      .order("deleted_at", { ascending: false });
+
+    if (error) {
+      console.error("Error listing trash:", error);
+      throw new Error("Failed to list trash");
+    }
+    return data || [];
+  }
+
+  /**
+   * Get one trashed location of a trip.
+   */
+  static async get(
+    tripId: string,
+    locationId: string
+  ): Promise<TrashedLocation> {
+    const { data, error } = await supabase
+      .from("trashed_locations")
+      .select("*")
+      .eq("trip_id", tripId)
+      .eq("location_id", locationId)
+      .single();
+
+    if (error || !data) throw new Error("Trashed location not found");
+    return data as TrashedLocation;
+  }
+
+  /**
+   * Keep a deleted location (and where it was) until it is restored or purged.
+   */
+  static async add(
+    tripId: string,
+    entry: {
+      location: Location;
+      rowValues: string[];
+      rowFields: Partial<Record<LocationColumn, string>>;
+      rowNumber: number;
+      position: number;
+    },
+    ctx: MutationContext
+  ) {
+    const { error } = await supabase.from("trashed_locations").upsert(
+      {
+        trip_id: tripId,
+        location_id: entry.location.id,
+        data: entry.location,
+        row_values: entry.rowValues,
+        row_fields: entry.rowFields,
+        row_number: entry.rowNumber,
+        position: entry.position,
+        actor_id: ctx.actorId,
+        actor_email: ctx.actorEmail,
+        deleted_at: new Date().toISOString(),
+      },
+      { onConflict: "trip_id,location_id" }
+    );
+
+    if (error) {
+      console.error("Error trashing location:", error);
+      throw new Error("Failed to move location to trash");
+    }
+  }
+
+  /**
+   * Drop trash entries (after a restore or purge).
+   */
+  static async remove(tripId: string, locationIds: string[]) {
+    if (locationIds.length === 0) return;
+
+    const { error } = await supabase
+      .from("trashed_locations")
+      .delete()
+      .eq("trip_id", tripId)
+      .in("location_id", locationIds);
+
+    if (error) throw new Error("Failed to remove trash entries");
+  }
+
+  /**
+   * Entries of all trips deleted before the cutoff.
+   */
+  static async listExpired(before: Date, limit = 200) {
+    const { data, error } = await supabase
+      .from("trashed_locations")
+      .select("trip_id, location_id")
+      .lt("deleted_at", before.toISOString())
+      .order("deleted_at", { ascending: true })
+      .limit(limit);
+
+    if (error) throw new Error("Failed to read expired trash");
+    return (data || []) as { trip_id: string; location_id: string }[];
+  }
+
+  /**
+   * Mark itinerary entries whose location is in the trash.
+   * Entries are kept so restoring the location brings the plan back intact.
+   */
+  static async flagItinerary(tripId: string, items: ItineraryItem[]) {
+    const { data, error } = await supabase
+      .from("trashed_locations")
+      .select("location_id")
+      .eq("trip_id", tripId);
+
+    if (error) throw new Error("Failed to read trash");
+    const trashed = new Set((data || []).map((row) => row.location_id));
+
+    return items.map((item) => ({
+      ...item,
+      locationTrashed: trashed.has(item.locationId),
+    }));
+  }
+}
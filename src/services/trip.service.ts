@@ -0,0 +1,198 @@
+import { supabaseAdmin as supabase } from "./supabase";
+import { SheetsService } from "./sheets.service";
+import { ColumnMapService } from "./columnMap.service";
+import { decrypt } from "../utils/encryption";
+import { Trip, TripSettings } from "../types";
+
+export interface TripInput extends Partial<TripSettings> {
+  name?: string;
+}
+
+export const DEFAULT_TRIP_SETTINGS: TripSettings = {
+  startDate: null,
+  endDate: null,
+  timezone: "Asia/Tokyo",
+  homeCurrency: "THB",
+  language: "en",
+  country: "Japan",
+};
+
+// TripSettings field -> trips column
+const SETTINGS_COLUMNS: Record<keyof TripSettings, keyof Trip> = {
+  startDate: "start_date",
+  endDate: "end_date",
+  timezone: "timezone",
+  homeCurrency: "home_currency",
+  language: "language",
+  country: "country",
+};
+
+export class TripService {
+  /**
+   * Get a trip by ID, or null.
+   */
+  static async getTrip(tripId: string): Promise<Trip | null> {
+    const { data, error } = await supabase
+      .from("trips")
+      .select("*")
+      .eq("id", tripId)
+      .maybeSingle();
+
+    // 22P02: not a valid UUID, so no such trip either
+    if (error && error.code !== "22P02") {
+      console.error("Error fetching trip:", error);
+      throw new Error("Failed to fetch trip");
+    }
+    return (data as Trip) || null;
+  }
+
+  /**
+   * Settings of a trip (columns not set yet fall back to the defaults).
+   */
+  static toSettings(trip: Trip | null): TripSettings {
+    const settings = { ...DEFAULT_TRIP_SETTINGS };
+    if (!trip) return settings;
+
+    for (const [field, column] of Object.entries(SETTINGS_COLUMNS)) {
+      const value = trip[column];
+      if (value !== null && value !== undefined && value !== "") {
+        (settings as any)[field] = value;
+      }
+    }
+    return settings;
+  }
+
+  /**
+   * Settings of a trip by ID (defaults if the trip doesn't exist).
+   */
+  static async getSettings(tripId: string): Promise<TripSettings> {
+    return this.toSettings(await this.getTrip(tripId));
+  }
+
+  /**
+   * Trips owned by a user (oldest first).
+   */
+  static async listOwnedTrips(userId: string): Promise<Trip[]> {
+    const { data, error } = await supabase
+      .from("trips")
+      .select("*")
+      .eq("owner_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error listing trips:", error);
+      throw new Error("Failed to list trips");
+    }
+    return data || [];
+  }
+
+  /**
+   * The trip used when a request doesn't name one: the user's first trip.
+   * Keeps single-trip clients (and migrated accounts) working unchanged.
+   */
+  static async getDefaultTripId(userId: string): Promise<string | null> {
+    const trips = await this.listOwnedTrips(userId);
+    return trips[0]?.id || null;
+  }
+
+  /**
+   * Sheets client authorized with the Google account of a trip owner.
+   */
+  static async getOwnerAuth(ownerId: string) {
+    const { data: profile, error } = await supabase
+      .from("profiles")
+      .select("google_refresh_token")
+      .eq("id", ownerId)
+      .single();
+
+    if (error || !profile?.google_refresh_token) {
+      throw new Error("User profile incomplete.");
+    }
+    return SheetsService.getAuthClient(decrypt(profile.google_refresh_token));
+  }
+
+  /**
+   * Create a trip. Without an existing spreadsheet ID a new spreadsheet is
+   * created in the owner's Google account.
+   */
+  static async createTrip(
+    ownerId: string,
+    input: TripInput & { name: string; spreadsheetId?: string }
+  ): Promise<Trip> {
+    let spreadsheetId = input.spreadsheetId;
+    if (!spreadsheetId) {
+      const auth = await this.getOwnerAuth(ownerId);
+      const sheet = await SheetsService.createSpreadsheet(
+        auth,
+        `JP Trip Planner - ${input.name}`
+      );
+      spreadsheetId = sheet.spreadsheetId || undefined;
+    }
+    if (!spreadsheetId) throw new Error("Failed to create spreadsheet");
+
+    const { data, error } = await supabase
+      .from("trips")
+      .insert({
+        ...this.toColumns(input),
+        owner_id: ownerId,
+        name: input.name,
+        spreadsheet_id: spreadsheetId,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating trip:", error);
+      throw new Error("Failed to create trip");
+    }
+    return data as Trip;
+  }
+
+  /**
+   * Rename a trip or change its settings.
+   */
+  static async updateTrip(tripId: string, input: TripInput): Promise<Trip> {
+    const updates: Record<string, any> = {
+      ...this.toColumns(input),
+      updated_at: new Date().toISOString(),
+    };
+    if (input.name !== undefined) updates.name = input.name;
+
+    const { data, error } = await supabase
+      .from("trips")
+      .update(updates)
+      .eq("id", tripId)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error updating trip:", error);
+      throw new Error("Failed to update trip");
+    }
+    return data as Trip;
+  }
+
+  /**
+   * Delete a trip and everything stored for it (the spreadsheet is kept).
+   */
+  static async deleteTrip(trip: Trip) {
+    if (trip.spreadsheet_id) ColumnMapService.invalidate(trip.spreadsheet_id);
+
+    // Per-trip tables reference trips with "on delete cascade"
+    const { error } = await supabase.from("trips").delete().eq("id", trip.id);
+    if (error) {
+      console.error("Error deleting trip:", error);
+      throw new Error("Failed to delete trip");
+    }
+  }
+
+  // Settings given in the input, as trips columns
+  private static toColumns(input: Partial<TripSettings>) {
+    const columns: Record<string, any> = {};
+    for (const [field, column] of Object.entries(SETTINGS_COLUMNS)) {
+      const value = input[field as keyof TripSettings];
+      if (value !== undefined) columns[column] = value;
+    }
+    return columns;
+  }
+}
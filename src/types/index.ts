@@ -8,7 +8,8 @@ export interface Location {
   googleMapsUrl: string;
   lat: number;
   lng: number;
-  distanceFromMetro?: string;
+  distanceFromMetro?: string; // e.g. "8 min walk from Namba", see StationService
+  nearestStations?: NearestStation[];
   description?: string;
   photoUrl?: string; // Cache the photo URL if possible
   openingHours?: {
@@ -17,19 +18,136 @@ export interface Location {
   };
   businessStatus?: string;
   utcOffsetMinutes?: number;
+  price?: (PriceRange & { home: ConvertedPrice | null }) | null; // Parsed priceJpy, filled on read
+}
+
+// priceJpy parsed into a range (see utils/price)
+export interface PriceRange {
+  minJpy: number;
+  maxJpy: number | null; // null = open-ended ("3000+", "¥¥¥¥")
+  kind: "amount" | "range" | "level" | "free";
+}
+
+export interface ExchangeRate {
+  currency: string; // ISO 4217
+  rate: number; // Units of `currency` per 1 JPY
+  source: "manual" | "file" | "bundled";
+  updatedAt: string;
+}
+
+export interface ConvertedPrice {
+  currency: string;
+  min: number;
+  max: number | null;
+  text: string; // e.g. "฿220–660"
+  rate: number;
+  rateSource: ExchangeRate["source"];
+  rateUpdatedAt: string;
+}
+
+export interface Station {
+  id: string;
+  name: string; // English
+  nameJa: string;
+  lines: string[];
+  lat: number;
+  lng: number;
+}
+
+export interface NearestStation extends Station {
+  distanceKm: number; // Straight line
+  walkMinutes: number;
+}
+
+export interface ItineraryItem {
+  id: string; // Persistent, stored in the "Item ID" column
+  day: string;
+  locationId: string;
+  order: number;
+  note: string;
+  date?: string | null; // YYYY-MM-DD, from the sheet or resolved from `day`
+  startTime?: string | null; // "HH:MM", trip-local
+  durationMinutes?: number | null;
+  fixedTime?: boolean; // Booked slot (e.g. timed entry tickets)
+}
+
+// Attribution for writes to trip data (history, activity)
+export interface MutationContext {
+  actorId: string | null; // null = system (e.g. enrichment worker)
+  actorEmail: string | null;
+  source: string; // Route or job, e.g. "POST /api/locations/update"
+}
+
+// Place details as returned by GeocodingService
+export interface PlaceData {
+  name: string;
+  city: string;
+  lat: number;
+  lng: number;
+  photoRef?: string;
+  googleMapsUrl?: string;
+  website?: string;
+  priceLevel?: string;
+  type?: string;
+  summary?: string;
+  openingHours?: {
+    weekdayText?: string[];
+    openNow?: boolean;
+  };
+  businessStatus?: string;
+  utcOffsetMinutes?: number;
 }
 
 export interface UserProfile {
   id: string; // Supabase Hash ID
   email: string;
   google_refresh_token: string | null; // Encrypted
+  created_at: string;
+}
+
+// A trip has its own spreadsheet and cache; the owner's Google account is
+// used for sheet access
+export interface Trip {
+  id: string;
+  owner_id: string;
+  name: string;
+  start_date: string | null; // YYYY-MM-DD
+  end_date: string | null;
+  timezone: string; // IANA, e.g. "Asia/Tokyo"
+  home_currency: string; // ISO 4217, e.g. "THB"
+  language: TripLanguage;
+  country: string; // Destination, used for geocoding and city fallback
   spreadsheet_id: string | null;
+  public_slug: string | null;
+  is_public: boolean;
+  mirror_expenses: boolean; // Copy expenses to an "Expenses" tab
   created_at: string;
+  updated_at: string;
+}
+
+// Access to a trip: its owner, or the role of a collaborator
+export type CollaboratorRole = "viewer" | "editor" | "admin";
+export type TripRole = "owner" | CollaboratorRole;
+
+// What a route needs, see utils/permissions
+export type TripPermission = "read" | "edit" | "manage" | "destroy";
+
+export type TripLanguage = "en" | "ja" | "th";
+
+// Trip-level configuration read by sync, itinerary ordering, price
+// conversion and the shared view
+export interface TripSettings {
+  startDate: string | null;
+  endDate: string | null;
+  timezone: string;
+  homeCurrency: string;
+  language: TripLanguage;
+  country: string;
 }
 
 export interface CachedLocations {
   id: number;
-  owner_id: string;
+  trip_id: string;
   sheet_id: string;
   data: Location[];
   updated_at: string;
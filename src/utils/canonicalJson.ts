@@ -0,0 +1,19 @@
+// JSON with object keys in sorted order. Data read back from jsonb columns
+// comes with its keys reordered, so plain JSON.stringify can't be used to
+// compare it with (or hash it like) the objects it was written from.
+
+const sortKeys = (value: any): any => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])])
+    );
+  }
+  return value;
+};
+
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(value));
+}
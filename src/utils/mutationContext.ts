@@ -0,0 +1,16 @@
+import { Request } from "express";
+import { MutationContext } from "../types";
+
+// Who is changing trip data and through which route
+export function contextFromRequest(req: Request): MutationContext {
+  return {
+    actorId: req.user?.id || null,
+    actorEmail: req.user?.email || null,
+    source: `${req.method} ${req.baseUrl}${req.route?.path || ""}`,
+  };
+}
+
+// Changes made by the backend itself (cron worker, internal resyncs)
+export function systemContext(source: string): MutationContext {
+  return { actorId: null, actorEmail: null, source };
+}
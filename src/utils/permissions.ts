@@ -0,0 +1,42 @@
+// Trip roles and what each may do:
+// - read: view the trip (locations, itinerary, expenses, history)
+// - edit: change locations, itinerary, plans and expenses
+// - manage: collaborators and trip setup (settings, rates, columns, sharing)
+// - destroy: deletes and wholesale rewrites (delete locations, purge trash,
+//   disconnect the sheet, restore a version, replace the itinerary)
+// Deleting the trip itself stays with its owner.
+
+import { CollaboratorRole, TripPermission, TripRole } from "../types";
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = [
+  "viewer",
+  "editor",
+  "admin",
+];
+
+// Role of collaborators invited before roles existed (they could edit)
+export const DEFAULT_COLLABORATOR_ROLE: CollaboratorRole = "editor";
+
+const ROLE_PERMISSIONS: Record<TripRole, TripPermission[]> = {
+  viewer: ["read"],
+  editor: ["read", "edit"],
+  admin: ["read", "edit", "manage", "destroy"],
+  owner: ["read", "edit", "manage", "destroy"],
+};
+
+/**
+ * Whether a role grants a permission.
+ */
+export function can(
+  role: TripRole | null | undefined,
+  permission: TripPermission
+) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Permissions of a role, for clients to show or hide actions.
+ */
+export function permissionsOf(role: TripRole) {
+  return [...ROLE_PERMISSIONS[role]];
+}
@@ -0,0 +1,139 @@
+// Price strings in the "Locations" tab come in many shapes: plain amounts
+// ("1500", "¥1,500", "1500円"), ranges ("1000-2000", "1000〜2000"), open
+// ranges ("3000+") and Google price levels ("¥¥", see GeocodingService.mapPrice).
+
+import { ConvertedPrice, ExchangeRate, Location, PriceRange } from "../types";
+
+// Rough per-person spend for Google price levels in Japan
+const LEVEL_RANGES: Record<number, [number, number | null]> = {
+  1: [0, 1000],
+  2: [1000, 3000],
+  3: [3000, 10000],
+  4: [10000, null],
+};
+
+const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[¥￥,\s円]|JPY|yen/gi, "");
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Math.round(parseFloat(cleaned));
+};
+
+/**
+ * Parse a priceJpy cell into a JPY range, or null if it isn't a price
+ * ("-", "", "ask at counter").
+ */
+export function parsePriceJpy(
+  raw: string | undefined | null
+): PriceRange | null {
+  const value = (raw || "").trim();
+  if (!value || value === "-") return null;
+
+  if (/^(free|無料|ฟรี)$/i.test(value) || value === "0") {
+    return { minJpy: 0, maxJpy: 0, kind: "free" };
+  }
+
+  if (/^[¥￥]{1,4}$/.test(value)) {
+    const [min, max] = LEVEL_RANGES[value.length];
+    return { minJpy: min, maxJpy: max, kind: "level" };
+  }
+
+  const open = value.match(/^(.+?)\s*\+$/);
+  if (open) {
+    const min = parseAmount(open[1]);
+    return min === null ? null : { minJpy: min, maxJpy: null, kind: "range" };
+  }
+
+  const range = value.split(/\s*[-–~〜～]\s*/);
+  if (range.length === 2) {
+    const min = parseAmount(range[0]);
+    const max = parseAmount(range[1]);
+    if (min === null || max === null) return null;
+    return {
+      minJpy: Math.min(min, max),
+      maxJpy: Math.max(min, max),
+      kind: "range",
+    };
+  }
+
+  const amount = parseAmount(value);
+  return amount === null
+    ? null
+    : { minJpy: amount, maxJpy: amount, kind: "amount" };
+}
+
+/**
+ * Format an amount (or range) in a currency, e.g. "฿330" or "฿220–660".
+ */
+export function formatMoney(min: number, max: number | null, currency: string) {
+  const format = (n: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: n >= 100 ? 0 : 2,
+    }).format(n);
+
+  if (max === null) return `${format(min)}+`;
+  if (max === min) return format(min);
+  return `${format(min)}–${format(max)}`;
+}
+
+/**
+ * Convert a JPY range with a rate (units of `rate.currency` per 1 JPY).
+ */
+export function convertRange(
+  range: PriceRange,
+  rate: ExchangeRate
+): ConvertedPrice {
+  const round = (n: number) => Math.round(n * rate.rate * 100) / 100;
+  const min = round(range.minJpy);
+  const max = range.maxJpy === null ? null : round(range.maxJpy);
+
+  return {
+    currency: rate.currency,
+    min,
+    max,
+    text: formatMoney(min, max, rate.currency),
+    rate: rate.rate,
+    rateSource: rate.source,
+    rateUpdatedAt: rate.updatedAt,
+  };
+}
+
+/**
+ * Fill a location's priceThb and structured price from its priceJpy cell.
+ * Currencies without a known rate are left unconverted.
+ */
+export function priceLocation(
+  loc: Location,
+  rates: Record<string, ExchangeRate>,
+  homeCurrency: string
+): Location {
+  const range = parsePriceJpy(loc.priceJpy);
+  if (!range) return { ...loc, priceThb: "-", price: null };
+
+  const thb = rates.THB ? convertRange(range, rates.THB) : null;
+  const home = rates[homeCurrency]
+    ? convertRange(range, rates[homeCurrency])
+    : null;
+
+  return {
+    ...loc,
+    priceThb: thb ? thb.text : "-",
+    price: { ...range, home },
+  };
+}
+
+/**
+ * Convert an amount between two currencies through their JPY rates, or null
+ * if either rate is unknown.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, ExchangeRate>
+) {
+  if (from === to) return amount;
+  if (!rates[from] || !rates[to]) return null;
+  return (amount / rates[from].rate) * rates[to].rate;
+}
@@ -0,0 +1,130 @@
+// Offline route maths on location coordinates. Distances are straight-line
+// (great circle), which is enough to compare stop orders within a city.
+
+export interface Point {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+// Up to this many movable stops every order is tried; above it a local
+// search (swaps and segment reversals) is used
+const EXACT_LIMIT = 7;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Whether a point has usable coordinates (0/0 means "not geocoded").
+ */
+export function hasCoordinates(p: Partial<Point> | null | undefined) {
+  return (
+    !!p &&
+    typeof p.lat === "number" &&
+    typeof p.lng === "number" &&
+    !(p.lat === 0 && p.lng === 0)
+  );
+}
+
+/**
+ * Great-circle distance in km.
+ */
+export function haversineKm(a: Point, b: Point) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Length of a path in km. Stops without coordinates are skipped.
+ */
+export function pathDistanceKm(points: (Point | null)[]) {
+  const located = points.filter(hasCoordinates) as Point[];
+  let total = 0;
+  for (let i = 1; i < located.length; i++) {
+    total += haversineKm(located[i - 1], located[i]);
+  }
+  return total;
+}
+
+/**
+ * Reorder stops to shorten the path. Stops whose index is in `anchored`
+ * keep their position; the others are permuted among the remaining slots.
+ * `start` / `end` are extra fixed endpoints (e.g. the hotel) that count
+ * towards the distance but are not part of the result.
+ */
+export function optimizeOrder(
+  stops: (Point | null)[],
+  anchored: Set<number>,
+  start: Point | null = null,
+  end: Point | null = null
+): number[] {
+  const slots = stops.map((_, i) => i).filter((i) => !anchored.has(i));
+  const length = (order: number[]) =>
+    pathDistanceKm([start, ...order.map((i) => stops[i]), end]);
+
+  // order[slot] = index of the stop placed there
+  const withFree = (free: number[]) => {
+    const order = stops.map((_, i) => i);
+    slots.forEach((slot, k) => (order[slot] = free[k]));
+    return order;
+  };
+
+  if (slots.length <= 1) return stops.map((_, i) => i);
+
+  if (slots.length <= EXACT_LIMIT) {
+    let best = slots.slice();
+    let bestLength = length(withFree(best));
+    const permute = (prefix: number[], rest: number[]) => {
+      if (rest.length === 0) {
+        const total = length(withFree(prefix));
+        if (total < bestLength - 1e-9) {
+          best = prefix;
+          bestLength = total;
+        }
+        return;
+      }
+      rest.forEach((stop, i) =>
+        permute(
+          [...prefix, stop],
+          rest.filter((_, j) => j !== i)
+        )
+      );
+    };
+    permute([], slots);
+    return withFree(best);
+  }
+
+  // Local search from the current order until no move helps
+  let free = slots.slice();
+  let bestLength = length(withFree(free));
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < free.length - 1; i++) {
+      for (let j = i + 1; j < free.length; j++) {
+        const candidates = [
+          // Swap two stops
+          free.map((s, k) => (k === i ? free[j] : k === j ? free[i] : s)),
+          // Reverse the stops between them
+          [
+            ...free.slice(0, i),
+            ...free.slice(i, j + 1).reverse(),
+            ...free.slice(j + 1),
+          ],
+        ];
+        for (const candidate of candidates) {
+          const total = length(withFree(candidate));
+          if (total < bestLength - 1e-9) {
+            free = candidate;
+            bestLength = total;
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+  return withFree(free);
+}
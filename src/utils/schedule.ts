@@ -0,0 +1,173 @@
+// Time slots inside itinerary days: parsing sheet times, chronological
+// ordering and overlap checks. Times are local to the trip ("HH:MM").
+
+import { ItineraryItem } from "../types";
+import { compareDays, dayDate } from "./tripDays";
+
+type ScheduledItem = Pick<
+  ItineraryItem,
+  "day" | "order" | "date" | "startTime" | "durationMinutes"
+> & { id?: string; locationId: string };
+
+export interface Overlap {
+  date: string | null;
+  day: string;
+  first: { id?: string; locationId: string; startTime: string };
+  second: { id?: string; locationId: string; startTime: string };
+}
+
+/**
+ * Minutes since midnight of a time cell ("9:30", "09:30:00", "7:15 pm"),
+ * or null if it isn't a time.
+ */
+export function parseTime(value: string | null | undefined) {
+  const match = (value || "")
+    .trim()
+    .match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * "HH:MM" for minutes since midnight.
+ */
+export function formatTime(minutes: number) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+// Calendar date of an item: its own date, or resolved from its day label
+export function itemDate(item: ScheduledItem, startDate: string | null) {
+  return item.date || dayDate(item.day, startDate);
+}
+
+/**
+ * Order items chronologically: by date (or day label), then by start time.
+ * Untimed items stay right after the timed item that precedes them by
+ * `order`, so "lunch somewhere" after a 10:00 slot stays after it.
+ * `order` is then renumbered 1..n within each day to match.
+ */
+export function sortItinerary<T extends ScheduledItem>(
+  items: T[],
+  startDate: string | null
+): T[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = itemDate(item, startDate) || item.day;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  }
+
+  const keys = Array.from(groups.keys()).sort((a, b) => {
+    const [da, db] = [groups.get(a)![0], groups.get(b)![0]];
+    const dateA = itemDate(da, startDate);
+    const dateB = itemDate(db, startDate);
+    if (dateA && dateB) return dateA.localeCompare(dateB);
+    return compareDays(da.day, db.day, startDate);
+  });
+
+  return keys.flatMap((key) => {
+    let current = -1; // Before the first timed item
+    const withTimes = groups
+      .get(key)!
+      .slice()
+      .sort((a, b) => a.order - b.order)
+      .map((item, index) => {
+        const time = parseTime(item.startTime);
+        if (time !== null) current = time;
+        return { item, index, time: current, timed: time !== null };
+      });
+
+    return withTimes
+      .sort(
+        (a, b) =>
+          a.time - b.time ||
+          Number(b.timed) - Number(a.timed) ||
+          a.index - b.index
+      )
+      .map(({ item }, i) => ({ ...item, order: i + 1 }));
+  });
+}
+
+/**
+ * Schedule problems of an itinerary: dates outside the trip, overlapping
+ * slots. Returns null if there are none.
+ */
+export function checkSchedule<T extends ScheduledItem>(
+  items: T[],
+  startDate: string | null,
+  endDate: string | null
+) {
+  const outside = items.filter((item) => {
+    const date = itemDate(item, startDate);
+    return (
+      !!date &&
+      ((!!startDate && date < startDate) || (!!endDate && date > endDate))
+    );
+  });
+  if (outside.length > 0) {
+    return {
+      error: "Itinerary items fall outside the trip dates",
+      items: outside,
+    };
+  }
+
+  const overlaps = findOverlaps(items, startDate);
+  if (overlaps.length > 0) {
+    return { error: "Itinerary items overlap", overlaps };
+  }
+  return null;
+}
+
+/**
+ * Pairs of timed items on the same date whose slots overlap. An item
+ * without a duration only takes its start minute.
+ */
+export function findOverlaps(
+  items: ScheduledItem[],
+  startDate: string | null
+): Overlap[] {
+  const slots = items
+    .map((item) => ({
+      item,
+      date: itemDate(item, startDate),
+      start: parseTime(item.startTime),
+    }))
+    .filter((slot) => slot.start !== null)
+    .map((slot) => ({
+      ...slot,
+      end: slot.start! + Math.max(slot.item.durationMinutes || 0, 1),
+    }));
+
+  const overlaps: Overlap[] = [];
+  const describe = (item: ScheduledItem) => ({
+    id: item.id,
+    locationId: item.locationId,
+    startTime: item.startTime!,
+  });
+
+  slots.forEach((a, i) => {
+    slots.slice(i + 1).forEach((b) => {
+      const sameDay =
+        a.date && b.date ? a.date === b.date : a.item.day === b.item.day;
+      if (!sameDay) return;
+      if (a.start! < b.end && b.start! < a.end) {
+        overlaps.push({
+          date: a.date,
+          day: a.item.day,
+          first: describe(a.start! <= b.start! ? a.item : b.item),
+          second: describe(a.start! <= b.start! ? b.item : a.item),
+        });
+      }
+    });
+  });
+  return overlaps;
+}
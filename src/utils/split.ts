@@ -0,0 +1,108 @@
+// How an expense is divided among trip participants, and how a group
+// settles up afterwards. Amounts are in the currency they are given in.
+
+export type SplitMode = "equal" | "shares" | "exact";
+
+// One participant's part of an expense: `share` for "shares" mode (weight),
+// `amount` for "exact" mode, nothing for "equal"
+export interface SplitPart {
+  email: string;
+  share?: number;
+  amount?: number;
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+const CENT = 0.01;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Check a split against the expense amount. Returns an error message, or
+ * null if the split is valid.
+ */
+export function validateSplit(
+  amount: number,
+  mode: SplitMode,
+  parts: SplitPart[]
+): string | null {
+  if (parts.length === 0) return "Split needs at least one participant";
+
+  const emails = new Set(parts.map((p) => p.email));
+  if (emails.size !== parts.length) return "Participant listed twice in split";
+
+  if (mode === "shares" && parts.some((p) => !p.share || p.share <= 0)) {
+    return "Every participant needs a positive share";
+  }
+  if (mode === "exact") {
+    if (parts.some((p) => p.amount === undefined || p.amount < 0)) {
+      return "Every participant needs an amount";
+    }
+    const sum = parts.reduce((total, p) => total + (p.amount || 0), 0);
+    if (Math.abs(sum - amount) >= CENT) {
+      return `Split amounts add up to ${round2(sum)}, not ${amount}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * What each participant owes of an expense (email -> amount).
+ */
+export function splitAmount(
+  amount: number,
+  mode: SplitMode,
+  parts: SplitPart[]
+): Map<string, number> {
+  const owed = new Map<string, number>();
+
+  if (mode === "exact") {
+    parts.forEach((p) => owed.set(p.email, p.amount || 0));
+    return owed;
+  }
+
+  const weights = parts.map((p) => (mode === "shares" ? p.share || 0 : 1));
+  const totalWeight = weights.reduce((total, w) => total + w, 0);
+  parts.forEach((p, i) =>
+    owed.set(p.email, (amount * weights[i]) / totalWeight)
+  );
+  return owed;
+}
+
+/**
+ * Transfers that settle net positions (email -> paid minus owed).
+ * Greedy: the largest debtor pays the largest creditor until everyone is
+ * even, which needs at most n - 1 transfers.
+ */
+export function settleUp(net: Map<string, number>): Transfer[] {
+  const creditors = Array.from(net.entries())
+    .filter(([, value]) => value >= CENT)
+    .map(([email, value]) => ({ email, value }));
+  const debtors = Array.from(net.entries())
+    .filter(([, value]) => value <= -CENT)
+    .map(([email, value]) => ({ email, value: -value }));
+
+  const transfers: Transfer[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.value - a.value);
+    debtors.sort((a, b) => b.value - a.value);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = Math.min(creditor.value, debtor.value);
+    transfers.push({
+      from: debtor.email,
+      to: creditor.email,
+      amount: round2(amount),
+    });
+
+    creditor.value -= amount;
+    debtor.value -= amount;
+    if (creditor.value < CENT) creditors.shift();
+    if (debtor.value < CENT) debtors.shift();
+  }
+  return transfers;
+}
@@ -0,0 +1,183 @@
+import crypto from "crypto";
+import { Location } from "../types";
+
+// Per-row sync bookkeeping stored with the cache (cached_locations.row_state)
+// `hash` is the content both sides agreed on at the last sync.
+export interface RowState {
+  hash: string;
+  version: number;
+  syncedAt: string;
+}
+
+export type RowStateMap = Record<string, RowState>;
+
+// Fields that live in the sheet and therefore take part in change detection
+const HASHED_FIELDS: (keyof Location)[] = [
+  "name",
+  "city",
+  "type",
+  "priceJpy",
+  "description",
+  "googleMapsUrl",
+  "lat",
+  "lng",
+  "photoUrl",
+];
+
+export function hashLocation(loc: Location): string {
+  const values = HASHED_FIELDS.map((field) => loc[field] ?? "");
+  return crypto.createHash("sha1").update(JSON.stringify(values)).digest("hex");
+}
+
+export interface SyncConflictInput {
+  locationId: string;
+  sheet: Location | null; // null = deleted in the sheet
+  app: Location | null; // null = deleted in the app
+  baseVersion: number;
+}
+
+export interface SyncPlan {
+  // Resulting cache content (sheet order, app-only inserts last)
+  locations: Location[];
+  rowState: RowStateMap;
+  // Changes to push to the sheet
+  sheetUpdates: Location[];
+  sheetInserts: Location[];
+  sheetDeletes: string[];
+  conflicts: SyncConflictInput[];
+  stats: {
+    fromSheet: { inserted: number; updated: number; deleted: number };
+    toSheet: { inserted: number; updated: number; deleted: number };
+  };
+}
+
+/**
+ * Three-way compare of sheet rows, app cache and the last synced state.
+ *
+ * - changed on one side only -> that side wins and is copied to the other
+ * - changed on both sides to the same content -> converged, no-op
+ * - changed on both sides differently -> conflict; the app value stays in the
+ *   cache and the sheet is left alone until the conflict is resolved
+ *
+ * Without a base (first sync, or a row unknown to the last sync) the sheet is
+ * the source of truth, as it was before incremental sync existed.
+ */
+export function planSync(
+  sheetLocs: Location[],
+  appLocs: Location[],
+  base: RowStateMap,
+  now: string
+): SyncPlan {
+  const hasBase = Object.keys(base).length > 0;
+  const sheetById = new Map(sheetLocs.map((loc) => [loc.id, loc]));
+  const appById = new Map(appLocs.map((loc) => [loc.id, loc]));
+
+  const plan: SyncPlan = {
+    locations: [],
+    rowState: {},
+    sheetUpdates: [],
+    sheetInserts: [],
+    sheetDeletes: [],
+    conflicts: [],
+    stats: {
+      fromSheet: { inserted: 0, updated: 0, deleted: 0 },
+      toSheet: { inserted: 0, updated: 0, deleted: 0 },
+    },
+  };
+
+  const keep = (loc: Location, prev?: RowState, changed = false) => {
+    plan.locations.push(loc);
+    plan.rowState[loc.id] = {
+      hash: hashLocation(loc),
+      version: (prev?.version || 0) + (changed || !prev ? 1 : 0),
+      syncedAt: changed || !prev ? now : prev.syncedAt,
+    };
+  };
+
+  // Walk sheet order first, then app-only rows
+  const ids = [
+    ...sheetLocs.map((loc) => loc.id),
+    ...appLocs.map((loc) => loc.id).filter((id) => !sheetById.has(id)),
+    ...Object.keys(base).filter((id) => !sheetById.has(id) && !appById.has(id)),
+  ];
+
+  for (const id of ids) {
+    const sheet = sheetById.get(id) || null;
+    const app = appById.get(id) || null;
+    const prev = base[id];
+
+    if (!hasBase || !prev) {
+      if (sheet) {
+        const changed = !app || hashLocation(app) !== hashLocation(sheet);
+        if (!app) plan.stats.fromSheet.inserted++;
+        else if (changed) plan.stats.fromSheet.updated++;
+        keep(sheet, prev, changed);
+      } else if (app && hasBase) {
+        // Added in the app but never written to the sheet
+        plan.sheetInserts.push(app);
+        plan.stats.toSheet.inserted++;
+        keep(app, prev, true);
+      }
+      // No base at all: app-only rows are stale positional leftovers
+      continue;
+    }
+
+    const sheetHash = sheet ? hashLocation(sheet) : null;
+    const appHash = app ? hashLocation(app) : null;
+    const sheetChanged = sheetHash !== prev.hash;
+    const appChanged = appHash !== prev.hash;
+
+    if (!sheetChanged && !appChanged) {
+      // Unchanged; prefer the app copy so non-sheet fields survive
+      if (app) keep(app, prev);
+      continue;
+    }
+
+    if (sheetChanged && appChanged && sheetHash !== appHash) {
+      plan.conflicts.push({
+        locationId: id,
+        sheet,
+        app,
+        baseVersion: prev.version,
+      });
+      if (app) {
+        plan.locations.push(app);
+      }
+      plan.rowState[id] = prev;
+      continue;
+    }
+
+    if (sheetChanged && appChanged) {
+      // Same edit on both sides
+      if (sheet) keep(sheet, prev, true);
+      continue;
+    }
+
+    if (sheetChanged) {
+      if (sheet) {
+        plan.stats.fromSheet.updated++;
+        keep({ ...app, ...sheet }, prev, true);
+      } else {
+        plan.stats.fromSheet.deleted++;
+      }
+      continue;
+    }
+
+    // App changed only: push it to the sheet
+    if (app) {
+      if (sheet) {
+        plan.sheetUpdates.push(app);
+        plan.stats.toSheet.updated++;
+      } else {
+        plan.sheetInserts.push(app);
+        plan.stats.toSheet.inserted++;
+      }
+      keep(app, prev, true);
+    } else if (sheet) {
+      plan.sheetDeletes.push(id);
+      plan.stats.toSheet.deleted++;
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,42 @@
+// Travel estimates between consecutive stops from straight-line distance
+// and simple speed models (see CONFIG.TRAVEL). No routing service involved.
+
+import { CONFIG } from "../config";
+
+export type TravelMode = "walk" | "transit" | "taxi";
+
+export interface TravelEstimate {
+  distanceKm: number; // Straight line
+  minutes: Record<TravelMode, number>;
+  mode: TravelMode; // Suggested
+}
+
+/**
+ * Estimated minutes per mode for a straight-line distance.
+ */
+export function estimateTravel(
+  distanceKm: number,
+  speeds = CONFIG.TRAVEL
+): TravelEstimate {
+  const routeKm = distanceKm * speeds.DETOUR_FACTOR;
+  const minutesAt = (kmh: number) => Math.ceil((routeKm / kmh) * 60);
+
+  const minutes = {
+    walk: minutesAt(speeds.WALK_KMH),
+    transit: speeds.TRANSIT_OVERHEAD_MIN + minutesAt(speeds.TRANSIT_KMH),
+    taxi: minutesAt(speeds.TAXI_KMH),
+  };
+
+  return {
+    distanceKm: Math.round(distanceKm * 100) / 100,
+    minutes,
+    mode: distanceKm <= speeds.MAX_WALK_KM ? "walk" : "transit",
+  };
+}
+
+/**
+ * Fastest of the estimates, used to judge if a transition is feasible.
+ */
+export function fastestMinutes(estimate: TravelEstimate) {
+  return Math.min(...Object.values(estimate.minutes));
+}
@@ -0,0 +1,70 @@
+// Itinerary `day` values are free text typed into the sheet. These helpers
+// understand the common forms ("Day 3", "D3", "3", "2026-04-03") relative to
+// the trip start date so days sort chronologically ("Day 10" after "Day 2").
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_NUMBER = /^(?:day|d)?\s*(\d{1,3})$/i;
+
+export const UNSCHEDULED_DAY = "Unscheduled";
+
+const toUtcMs = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+/**
+ * 0-based day index of a `day` value, or null if it isn't a day
+ * (e.g. "Unscheduled", "Backup ideas"). ISO dates need a trip start date.
+ */
+export function dayIndex(day: string, startDate: string | null) {
+  const value = (day || "").trim();
+
+  const number = value.match(DAY_NUMBER);
+  if (number) return Math.max(0, parseInt(number[1]) - 1);
+
+  if (ISO_DATE.test(value) && startDate) {
+    const diff = Math.round((toUtcMs(value) - toUtcMs(startDate)) / DAY_MS);
+    return isNaN(diff) ? null : diff;
+  }
+  return null;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a `day` value, if it can be resolved.
+ */
+export function dayDate(day: string, startDate: string | null) {
+  const value = (day || "").trim();
+  if (ISO_DATE.test(value)) return value;
+
+  const index = dayIndex(value, startDate);
+  if (index === null || !startDate) return null;
+  return new Date(toUtcMs(startDate) + index * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Sort comparator for `day` values: days in chronological order, then
+ * other labels alphabetically, "Unscheduled" last.
+ */
+export function compareDays(a: string, b: string, startDate: string | null) {
+  if (a === b) return 0;
+  if (a === UNSCHEDULED_DAY) return 1;
+  if (b === UNSCHEDULED_DAY) return -1;
+
+  const ia = dayIndex(a, startDate);
+  const ib = dayIndex(b, startDate);
+  if (ia !== null && ib !== null && ia !== ib) return ia - ib;
+  if (ia !== null && ib === null) return -1;
+  if (ia === null && ib !== null) return 1;
+  return a.localeCompare(b);
+}
+
+/**
+ * Every date from start to end (inclusive), as YYYY-MM-DD.
+ */
+export function dateRange(startDate: string, endDate: string) {
+  const dates: string[] = [];
+  for (let ms = toUtcMs(startDate); ms <= toUtcMs(endDate); ms += DAY_MS) {
+    dates.push(new Date(ms).toISOString().slice(0, 10));
+  }
+  return dates;
+}
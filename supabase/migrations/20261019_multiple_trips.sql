@@ -0,0 +1,111 @@
+-- Multiple trips per account
+-- Run once on databases created before `trips` existed (schema.sql already
+-- contains the result for new installs).
+--
+-- Every existing account becomes one trip whose ID is the account's user ID.
+-- The owner_id values already stored in per-trip tables therefore stay valid
+-- as trip IDs, and clients still sending their user ID keep reaching it.
+
+begin;
+
+-- 1. Trips
+create table if not exists public.trips (
+  id uuid default gen_random_uuid() primary key,
+  owner_id uuid references public.profiles(id) not null,
+  name text not null,
+  start_date date,
+  end_date date,
+  spreadsheet_id text,
+  public_slug text unique,
+  is_public boolean not null default false,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists trips_owner_idx on public.trips (owner_id);
+
+alter table public.trips enable row level security;
+
+create policy "Users can view own trips" on public.trips
+  for select using (auth.uid() = owner_id);
+
+create or replace function public.is_trip_owner(target_trip_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from public.trips
+    where id = target_trip_id and owner_id = auth.uid()
+  );
+$$ language sql stable security definer;
+
+-- 2. One trip per existing account (spreadsheet and share slug move over)
+insert into public.trips (id, owner_id, name, spreadsheet_id, public_slug, is_public, created_at)
+select p.id, p.id, 'My Trip', p.spreadsheet_id, p.public_slug, coalesce(p.is_public, false), p.created_at
+from public.profiles p
+on conflict (id) do nothing;
+
+-- 3. Per-trip tables: owner_id -> trip_id, referencing trips
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'cached_locations',
+    'cached_itineraries',
+    'column_mappings',
+    'enrichment_jobs',
+    'sync_conflicts',
+    'trip_changes',
+    'trip_versions',
+    'trashed_locations'
+  ] loop
+    execute format('alter table public.%I drop constraint if exists %I', t, t || '_owner_id_fkey');
+    execute format('alter table public.%I rename column owner_id to trip_id', t);
+    execute format(
+      'alter table public.%I add constraint %I foreign key (trip_id) references public.trips(id) on delete cascade',
+      t, t || '_trip_id_fkey'
+    );
+  end loop;
+end $$;
+
+alter table public.cached_locations rename constraint unique_owner_cache to unique_trip_cache;
+alter index if exists trip_changes_owner_cursor_idx rename to trip_changes_trip_cursor_idx;
+alter index if exists trip_versions_owner_idx rename to trip_versions_trip_idx;
+
+-- Collaborators were keyed by the owner's user ID
+alter table public.trip_collaborators drop constraint if exists trip_collaborators_trip_owner_id_fkey;
+alter table public.trip_collaborators rename column trip_owner_id to trip_id;
+alter table public.trip_collaborators
+  add constraint trip_collaborators_trip_id_fkey
+  foreign key (trip_id) references public.trips(id) on delete cascade;
+
+-- 4. Policies: "own" rows are rows of trips the user owns
+drop policy if exists "Users can view own cache" on public.cached_locations;
+drop policy if exists "Users can view own itinerary" on public.cached_itineraries;
+drop policy if exists "Users can view own column mappings" on public.column_mappings;
+drop policy if exists "Users can view own enrichment jobs" on public.enrichment_jobs;
+drop policy if exists "Users can view own sync conflicts" on public.sync_conflicts;
+drop policy if exists "Users can view own trip changes" on public.trip_changes;
+drop policy if exists "Users can view own trip versions" on public.trip_versions;
+drop policy if exists "Users can view own trash" on public.trashed_locations;
+
+create policy "Users can view own cache" on public.cached_locations
+  for select using (public.is_trip_owner(trip_id));
+create policy "Users can view own itinerary" on public.cached_itineraries
+  for select using (public.is_trip_owner(trip_id));
+create policy "Users can view own column mappings" on public.column_mappings
+  for select using (public.is_trip_owner(trip_id));
+create policy "Users can view own enrichment jobs" on public.enrichment_jobs
+  for select using (public.is_trip_owner(trip_id));
+create policy "Users can view own sync conflicts" on public.sync_conflicts
+  for select using (public.is_trip_owner(trip_id));
+create policy "Users can view own trip changes" on public.trip_changes
+  for select using (public.is_trip_owner(trip_id));
+create policy "Users can view own trip versions" on public.trip_versions
+  for select using (public.is_trip_owner(trip_id));
+create policy "Users can view own trash" on public.trashed_locations
+  for select using (public.is_trip_owner(trip_id));
+
+-- profiles.spreadsheet_id / public_slug / is_public are no longer read; they
+-- are kept so this migration can be rolled back without data loss.
+
+commit;
@@ -0,0 +1,8 @@
+-- Trip settings: timezone, home currency, display language, country
+-- (start_date / end_date already exist on trips)
+
+alter table public.trips
+  add column if not exists timezone text not null default 'Asia/Tokyo',
+  add column if not exists home_currency text not null default 'THB',
+  add column if not exists language text not null default 'en',
+  add column if not exists country text not null default 'Japan';
@@ -0,0 +1,15 @@
+-- Manual exchange rate overrides per trip
+
+create table if not exists public.exchange_rates (
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  currency text not null,
+  rate numeric not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  primary key (trip_id, currency)
+);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Users can view own exchange rates" on public.exchange_rates
+  for select using (public.is_trip_owner(trip_id));
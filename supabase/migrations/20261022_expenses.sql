@@ -0,0 +1,27 @@
+-- Expenses, optionally mirrored to an "Expenses" sheet tab
+
+alter table public.trips
+  add column if not exists mirror_expenses boolean not null default false;
+
+create table if not exists public.expenses (
+  id uuid default gen_random_uuid() primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  amount numeric not null check (amount > 0),
+  currency text not null,
+  category text not null,
+  payer text not null,
+  location_id text,
+  day text,
+  note text default '' not null,
+  spent_on date,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists expenses_trip_idx on public.expenses (trip_id, created_at);
+
+alter table public.expenses enable row level security;
+
+create policy "Users can view own expenses" on public.expenses
+  for select using (public.is_trip_owner(trip_id));
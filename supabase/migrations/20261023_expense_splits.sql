@@ -0,0 +1,5 @@
+-- Expense splitting among trip participants
+
+alter table public.expenses
+  add column if not exists split_mode text not null default 'equal',
+  add column if not exists splits jsonb not null default '[]'::jsonb;
@@ -0,0 +1,12 @@
+-- Itinerary integrity reports (latest per trip)
+
+create table if not exists public.integrity_reports (
+  trip_id uuid references public.trips(id) on delete cascade primary key,
+  report jsonb not null,
+  checked_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.integrity_reports enable row level security;
+
+create policy "Users can view own integrity reports" on public.integrity_reports
+  for select using (public.is_trip_owner(trip_id));
@@ -0,0 +1,4 @@
+-- Itinerary version for optimistic concurrency (If-Match)
+
+alter table public.cached_itineraries
+  add column if not exists etag text;
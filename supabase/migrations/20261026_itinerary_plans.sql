@@ -0,0 +1,19 @@
+-- Alternative itinerary plans ("Rainy day", "Budget version")
+
+create table if not exists public.itinerary_plans (
+  id uuid default gen_random_uuid() primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  name text not null,
+  sheet_tab text not null, -- "Plan - <name>"
+  items jsonb not null default '[]'::jsonb,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  constraint unique_trip_plan_name unique (trip_id, name)
+);
+
+alter table public.itinerary_plans enable row level security;
+
+create policy "Users can view own plans" on public.itinerary_plans
+  for select using (public.is_trip_owner(trip_id));
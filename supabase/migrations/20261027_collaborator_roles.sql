@@ -0,0 +1,6 @@
+-- Collaborator roles (viewer, editor, admin). Existing collaborators could
+-- already edit, so they start as editors.
+
+alter table public.trip_collaborators
+  add column if not exists role text not null default 'editor'
+  check (role in ('viewer', 'editor', 'admin'));
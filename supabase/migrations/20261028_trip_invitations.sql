@@ -0,0 +1,26 @@
+-- Invitations with a consent step (pending, accepted, declined, expired).
+-- Collaborators added before this keep their access.
+
+create table if not exists public.trip_invitations (
+  id uuid default gen_random_uuid() primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  email text not null,
+  role text not null default 'editor' check (role in ('viewer', 'editor', 'admin')),
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'expired')),
+  invited_by uuid references public.profiles(id) on delete set null,
+  expires_at timestamp with time zone not null,
+  responded_at timestamp with time zone,
+  sent_count integer not null default 1,
+  last_sent_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  constraint unique_trip_invitation unique (trip_id, email)
+);
+
+create index if not exists trip_invitations_email_idx on public.trip_invitations (email, status);
+
+alter table public.trip_invitations enable row level security;
+
+create policy "Owner can view invitations" on public.trip_invitations
+  for select using (public.is_trip_owner(trip_id));
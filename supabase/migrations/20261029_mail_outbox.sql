@@ -0,0 +1,28 @@
+-- Outbox for invitation and notification emails. Failed sends are retried
+-- with backoff by /api/jobs/tick.
+
+create table if not exists public.mail_outbox (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade, -- null = not about a trip
+  to_email text not null,
+  template text not null, -- 'invitation', 'removal' or 'shareLink'
+  language text not null default 'en',
+  subject text not null,
+  text_body text not null,
+  html_body text not null,
+  status text not null default 'queued', -- 'queued', 'sending', 'sent' or 'failed'
+  attempts int not null default 0,
+  last_error text,
+  next_attempt_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  sent_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists mail_outbox_due_idx on public.mail_outbox (status, next_attempt_at);
+create index if not exists mail_outbox_trip_idx on public.mail_outbox (trip_id, id);
+
+alter table public.mail_outbox enable row level security;
+
+create policy "Owner can view sent mail" on public.mail_outbox
+  for select using (public.is_trip_owner(trip_id));
@@ -0,0 +1,37 @@
+-- Append-only log of trip mutations, read by GET /api/activity.
+
+create table if not exists public.activity_log (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  type text not null, -- e.g. 'location.delete', 'sheet.sync', 'collaborator.role'
+  target text, -- Location ID, email, ... the change is about
+  summary text not null,
+  before jsonb,
+  after jsonb,
+  actor_id uuid, -- null = system
+  actor_email text,
+  source text not null, -- Route or job
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists activity_log_trip_idx on public.activity_log (trip_id, id);
+create index if not exists activity_log_actor_idx on public.activity_log (trip_id, actor_id, id);
+create index if not exists activity_log_type_idx on public.activity_log (trip_id, type, id);
+
+-- Append-only: entries are never edited (they go away with their trip)
+create or replace function public.reject_activity_update()
+returns trigger as $$
+begin
+  raise exception 'activity_log is append-only';
+end;
+$$ language plpgsql;
+
+drop trigger if exists activity_log_append_only on public.activity_log;
+create trigger activity_log_append_only
+  before update on public.activity_log
+  for each row execute procedure public.reject_activity_update();
+
+alter table public.activity_log enable row level security;
+
+create policy "Owner can view activity" on public.activity_log
+  for select using (public.is_trip_owner(trip_id));
@@ -0,0 +1,5 @@
+-- Trashed rows keyed by field, so a restore still puts each value in the
+-- right column after the sheet's columns were reordered or added.
+-- Entries without it are restored from their cached location data.
+
+alter table public.trashed_locations add column if not exists row_fields jsonb;
@@ -7,7 +7,6 @@ create table public.profiles (
   id uuid references auth.users not null primary key,
   email text,
   google_refresh_token text, -- Encrypted
-  spreadsheet_id text,
   updated_at timestamp with time zone,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
@@ -23,17 +22,56 @@ create policy "Users can view own profile" on public.profiles
 create policy "Users can update own profile" on public.profiles
   for update using (auth.uid() = id);
 
--- 2. Cached Locations
+-- 2. Trips
+-- A user can own several trips, each with its own spreadsheet and cache.
+-- Sheet access uses the owner's Google token (profiles.google_refresh_token).
+create table public.trips (
+  id uuid default gen_random_uuid() primary key,
+  owner_id uuid references public.profiles(id) not null,
+  name text not null,
+  start_date date,
+  end_date date,
+  timezone text not null default 'Asia/Tokyo', -- IANA name
+  home_currency text not null default 'THB', -- ISO 4217, for price conversion
+  language text not null default 'en', -- 'en', 'ja' or 'th'
+  country text not null default 'Japan', -- geocoding + city fallback
+  spreadsheet_id text,
+  public_slug text unique, -- set while the trip is shared publicly
+  is_public boolean not null default false,
+  mirror_expenses boolean not null default false, -- Copy expenses to an "Expenses" tab
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index trips_owner_idx on public.trips (owner_id);
+
+alter table public.trips enable row level security;
+
+create policy "Users can view own trips" on public.trips
+  for select using (auth.uid() = owner_id);
+
+-- Used by the policies of all per-trip tables below
+create or replace function public.is_trip_owner(target_trip_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from public.trips
+    where id = target_trip_id and owner_id = auth.uid()
+  );
+$$ language sql stable security definer;
+
+-- 3. Cached Locations
 -- Stores the sync'd data from Google Sheets
 create table public.cached_locations (
   id bigint generated by default as identity primary key,
-  owner_id uuid references public.profiles(id) not null,
+  trip_id uuid references public.trips(id) on delete cascade not null,
   sheet_id text not null,
   data jsonb not null default '[]'::jsonb,
+  -- Per-row sync state: { "<location id>": { "hash", "version", "syncedAt" } }
+  row_state jsonb not null default '{}'::jsonb,
   updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
   
-  -- Ensure one cache entry per user (owner)
-  constraint unique_owner_cache unique (owner_id)
+  -- Ensure one cache entry per trip
+  constraint unique_trip_cache unique (trip_id)
 );
 
 alter table public.cached_locations enable row level security;
@@ -41,7 +79,7 @@ alter table public.cached_locations enable row level security;
 -- Policies for Cached Locations
 -- Owner can see their own cache
 create policy "Users can view own cache" on public.cached_locations
-  for select using (auth.uid() = owner_id);
+  for select using (public.is_trip_owner(trip_id));
 
 -- Shared Access Policy (Placeholder for now)
 -- We will implement strict sharing via the backend logic mostly, 
@@ -55,7 +93,25 @@ create policy "Users can view own cache" on public.cached_locations
 --     )
 --   );
 
--- 3. Shared Access
+-- 4. Cached Itineraries
+-- Stores the sync'd "Itinerary" tab
+create table public.cached_itineraries (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  sheet_id text not null,
+  data jsonb not null default '[]'::jsonb,
+  etag text, -- Version for If-Match on itinerary writes
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  constraint unique_trip_itinerary unique (trip_id)
+);
+
+alter table public.cached_itineraries enable row level security;
+
+create policy "Users can view own itinerary" on public.cached_itineraries
+  for select using (public.is_trip_owner(trip_id));
+
+-- 5. Shared Access
 -- Manages who can view whose list
 create table public.shared_access (
   id bigint generated by default as identity primary key,
@@ -76,6 +132,321 @@ create policy "Owner can manage shares" on public.shared_access
 create policy "Viewers can see their access" on public.shared_access
   for select using (viewer_email = (select email from public.profiles where id = auth.uid()));
 
+-- 6. Trip Collaborators
+-- Emails invited to view/edit a trip
+create table public.trip_collaborators (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  email text not null,
+  role text not null default 'editor' check (role in ('viewer', 'editor', 'admin')),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  constraint unique_trip_collaborator unique (trip_id, email)
+);
+
+alter table public.trip_collaborators enable row level security;
+
+create policy "Owner can view collaborators" on public.trip_collaborators
+  for select using (public.is_trip_owner(trip_id));
+
+-- 7. Column Mappings
+-- User-defined header aliases per trip for the "Locations" tab
+-- e.g. { "name": ["Name", "名前", "ชื่อ"], "description": ["Notes"] }
+create table public.column_mappings (
+  trip_id uuid references public.trips(id) on delete cascade not null primary key,
+  aliases jsonb not null default '{}'::jsonb,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.column_mappings enable row level security;
+
+create policy "Users can view own column mappings" on public.column_mappings
+  for select using (public.is_trip_owner(trip_id));
+
+-- 8. Enrichment Jobs
+-- Queue of locations waiting for Google Places data (coords, photo, metadata)
+-- Processed by the worker behind /api/jobs/tick and after each sync
+create table public.enrichment_jobs (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  location_id text not null,
+  status text not null default 'queued', -- 'queued', 'processing', 'done', 'skipped' or 'failed'
+  attempts int not null default 0,
+  last_error text,
+  next_attempt_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  -- One job per location
+  constraint unique_enrichment_job unique (trip_id, location_id)
+);
+
+create index enrichment_jobs_due_idx on public.enrichment_jobs (status, next_attempt_at);
+
+alter table public.enrichment_jobs enable row level security;
+
+create policy "Users can view own enrichment jobs" on public.enrichment_jobs
+  for select using (public.is_trip_owner(trip_id));
+
+-- 9. Sync Conflicts
+-- Rows changed in both the sheet and the app since the last sync
+create table public.sync_conflicts (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  location_id text not null,
+  sheet_data jsonb, -- null = deleted in the sheet
+  app_data jsonb, -- null = deleted in the app
+  base_version int not null default 0,
+  status text not null default 'open', -- 'open' or 'resolved'
+  resolution text, -- 'sheet', 'app' or 'merge'
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  resolved_at timestamp with time zone
+);
+
+create unique index sync_conflicts_open_idx on public.sync_conflicts (trip_id, location_id)
+  where status = 'open';
+
+alter table public.sync_conflicts enable row level security;
+
+create policy "Users can view own sync conflicts" on public.sync_conflicts
+  for select using (public.is_trip_owner(trip_id));
+
+-- 10. Trip Changes
+-- Append-only change feed; the identity `id` is the client's polling cursor
+create table public.trip_changes (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  entity text not null, -- 'location', 'itinerary' or 'trip' (sync marker)
+  entity_id text,
+  op text not null, -- 'added', 'updated', 'removed' or 'synced'
+  data jsonb, -- new state (null for removals)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index trip_changes_trip_cursor_idx on public.trip_changes (trip_id, id);
+
+alter table public.trip_changes enable row level security;
+
+create policy "Users can view own trip changes" on public.trip_changes
+  for select using (public.is_trip_owner(trip_id));
+
+-- 11. Trip Versions
+-- Snapshot of locations + itinerary after every sync/write, for restore
+create table public.trip_versions (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  locations jsonb not null default '[]'::jsonb,
+  itinerary jsonb not null default '[]'::jsonb,
+  location_count int not null default 0,
+  itinerary_count int not null default 0,
+  content_hash text not null, -- skips no-op snapshots
+  actor_id uuid, -- null = system (sync worker, cron)
+  actor_email text,
+  source text not null, -- route or job, e.g. 'POST /api/locations/update'
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index trip_versions_trip_idx on public.trip_versions (trip_id, id desc);
+
+alter table public.trip_versions enable row level security;
+
+create policy "Users can view own trip versions" on public.trip_versions
+  for select using (public.is_trip_owner(trip_id));
+
+-- 12. Trashed Locations
+-- Deleted locations (also moved to the sheet's "Archived" tab) kept for
+-- restore until purged manually or after TRASH_RETENTION_DAYS
+create table public.trashed_locations (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  location_id text not null,
+  data jsonb not null, -- cached Location at deletion time
+  row_values jsonb not null default '[]'::jsonb, -- raw "Locations" cells
+  row_fields jsonb, -- the same cells keyed by field, used for restore
+  row_number int not null, -- 1-based sheet row to restore into
+  position int not null default 0, -- index in cached_locations.data
+  actor_id uuid,
+  actor_email text,
+  deleted_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  constraint unique_trashed_location unique (trip_id, location_id)
+);
+
+create index trashed_locations_deleted_idx on public.trashed_locations (deleted_at);
+
+alter table public.trashed_locations enable row level security;
+
+create policy "Users can view own trash" on public.trashed_locations
+  for select using (public.is_trip_owner(trip_id));
+
+-- 13. Exchange Rates
+-- Manual per-trip overrides (units of `currency` per 1 JPY). Rates not set
+-- here come from EXCHANGE_RATES_FILE or the table bundled with the API.
+create table public.exchange_rates (
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  currency text not null, -- ISO 4217
+  rate numeric not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  primary key (trip_id, currency)
+);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Users can view own exchange rates" on public.exchange_rates
+  for select using (public.is_trip_owner(trip_id));
+
+-- 14. Expenses
+-- Stored here; the "Expenses" tab is only a mirror (trips.mirror_expenses)
+create table public.expenses (
+  id uuid default gen_random_uuid() primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  amount numeric not null check (amount > 0),
+  currency text not null, -- ISO 4217
+  category text not null, -- food, transport, lodging, activities, shopping, other
+  payer text not null, -- Participant email
+  split_mode text not null default 'equal', -- 'equal', 'shares' or 'exact'
+  splits jsonb not null default '[]'::jsonb, -- [{ email, share?, amount? }], empty = everyone
+  location_id text, -- Optional link to a location
+  day text, -- Optional link to an itinerary day
+  note text default '' not null,
+  spent_on date,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index expenses_trip_idx on public.expenses (trip_id, created_at);
+
+alter table public.expenses enable row level security;
+
+create policy "Users can view own expenses" on public.expenses
+  for select using (public.is_trip_owner(trip_id));
+
+-- 15. Integrity Reports
+-- Latest itinerary check against the location list (written after syncs)
+create table public.integrity_reports (
+  trip_id uuid references public.trips(id) on delete cascade primary key,
+  report jsonb not null, -- { ok, dangling, duplicates, emptyDays }
+  checked_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.integrity_reports enable row level security;
+
+create policy "Users can view own integrity reports" on public.integrity_reports
+  for select using (public.is_trip_owner(trip_id));
+
+-- 16. Itinerary Plans
+-- Named alternatives to the active itinerary, each mirrored to its own tab
+create table public.itinerary_plans (
+  id uuid default gen_random_uuid() primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  name text not null,
+  sheet_tab text not null, -- "Plan - <name>"
+  items jsonb not null default '[]'::jsonb,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  constraint unique_trip_plan_name unique (trip_id, name)
+);
+
+alter table public.itinerary_plans enable row level security;
+
+create policy "Users can view own plans" on public.itinerary_plans
+  for select using (public.is_trip_owner(trip_id));
+
+-- 17. Trip Invitations
+-- Emails invited to a trip; trip_collaborators gets a row once accepted
+create table public.trip_invitations (
+  id uuid default gen_random_uuid() primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  email text not null,
+  role text not null default 'editor' check (role in ('viewer', 'editor', 'admin')),
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'expired')),
+  invited_by uuid references public.profiles(id) on delete set null,
+  expires_at timestamp with time zone not null,
+  responded_at timestamp with time zone,
+  sent_count integer not null default 1,
+  last_sent_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  constraint unique_trip_invitation unique (trip_id, email)
+);
+
+create index if not exists trip_invitations_email_idx on public.trip_invitations (email, status);
+
+alter table public.trip_invitations enable row level security;
+
+create policy "Owner can view invitations" on public.trip_invitations
+  for select using (public.is_trip_owner(trip_id));
+
+-- 18. Mail Outbox
+-- Every email sent, kept with its delivery state; failed sends are retried
+create table public.mail_outbox (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade, -- null = not about a trip
+  to_email text not null,
+  template text not null, -- 'invitation', 'removal' or 'shareLink'
+  language text not null default 'en',
+  subject text not null,
+  text_body text not null,
+  html_body text not null,
+  status text not null default 'queued', -- 'queued', 'sending', 'sent' or 'failed'
+  attempts int not null default 0,
+  last_error text,
+  next_attempt_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  sent_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index mail_outbox_due_idx on public.mail_outbox (status, next_attempt_at);
+create index mail_outbox_trip_idx on public.mail_outbox (trip_id, id);
+
+alter table public.mail_outbox enable row level security;
+
+create policy "Owner can view sent mail" on public.mail_outbox
+  for select using (public.is_trip_owner(trip_id));
+
+-- 19. Activity Log
+-- Who changed what in a trip (locations, syncs, itinerary, sharing, people)
+create table public.activity_log (
+  id bigint generated by default as identity primary key,
+  trip_id uuid references public.trips(id) on delete cascade not null,
+  type text not null, -- e.g. 'location.delete', 'sheet.sync', 'collaborator.role'
+  target text, -- Location ID, email, ... the change is about
+  summary text not null,
+  before jsonb,
+  after jsonb,
+  actor_id uuid, -- null = system
+  actor_email text,
+  source text not null, -- Route or job
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index activity_log_trip_idx on public.activity_log (trip_id, id);
+create index activity_log_actor_idx on public.activity_log (trip_id, actor_id, id);
+create index activity_log_type_idx on public.activity_log (trip_id, type, id);
+
+-- Append-only: entries are never edited (they go away with their trip)
+create or replace function public.reject_activity_update()
+returns trigger as $$
+begin
+  raise exception 'activity_log is append-only';
+end;
+$$ language plpgsql;
+
+create trigger activity_log_append_only
+  before update on public.activity_log
+  for each row execute procedure public.reject_activity_update();
+
+alter table public.activity_log enable row level security;
+
+create policy "Owner can view activity" on public.activity_log
+  for select using (public.is_trip_owner(trip_id));
+
 -- Trigger to create profile on Signup
 create or replace function public.handle_new_user() 
 returns trigger as $$